@@ -0,0 +1,48 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { BadRequestError } from "@/lib/errors"
+import { matchesQuery, parseEventQuery, uniqueEvents } from "@/lib/events/query"
+import { parseAlarmRules } from "@/lib/export/alarms"
+import { buildCalendar } from "@/lib/export/ical"
+import { getSnapshotStore } from "@/lib/snapshots"
+
+const isSet = (value: string | null) => value !== null && value !== "false" && value !== "0"
+
+// Subscribable iCalendar feed of the latest stored scrape. Takes the same filters as /api/events,
+// e.g. ?type=Tournament, plus reminders such as ?alarm=10:Tournament&alarm=0:High Roller
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+
+  try {
+    const query = parseEventQuery(params)
+    const alarms = parseAlarmRules(params.getAll("alarm"))
+
+    const snapshot = await getSnapshotStore().latest()
+    if (!snapshot) {
+      return NextResponse.json({ error: "No scrape has been stored yet" }, { status: 404 })
+    }
+
+    const types = query.types ? ` (${params.getAll("type").join(", ")})` : ""
+    const calendar = buildCalendar(
+      uniqueEvents(snapshot.events).filter((event) => matchesQuery(event, query)),
+      { name: `Monopoly Go Events${types}`, generatedAt: snapshot.createdAt, alarms },
+    )
+
+    // Subscriptions read it inline; ?download=1 saves it as a file instead
+    const disposition = isSet(params.get("download")) ? "attachment" : "inline"
+    return new Response(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `${disposition}; filename="monopoly-go-events.ics"`,
+        "Cache-Control": "public, max-age=300",
+      },
+    })
+  } catch (error) {
+    if (error instanceof BadRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to build calendar" },
+      { status: 500 },
+    )
+  }
+}
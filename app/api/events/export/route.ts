@@ -0,0 +1,47 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { BadRequestError } from "@/lib/errors"
+import { parseEventQuery, queryEvents } from "@/lib/events/query"
+import { toCsv } from "@/lib/export/csv"
+import { buildEventTable, parseColumns, parseExportTimeZone } from "@/lib/export/table"
+import { toXlsx, XLSX_CONTENT_TYPE } from "@/lib/export/xlsx"
+import { getSnapshotStore } from "@/lib/snapshots"
+
+// One row per event from the latest stored scrape: ?format=csv|xlsx&columns=name,start&timeZone=Europe/London,
+// narrowed by the same filters as /api/events
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+
+  try {
+    const format = params.get("format") || "csv"
+    if (format !== "csv" && format !== "xlsx") {
+      throw new BadRequestError(`Unknown format: ${format}. Use csv or xlsx.`)
+    }
+
+    const query = parseEventQuery(params)
+    const columns = parseColumns(params.get("columns"))
+    const timeZone = parseExportTimeZone(params.get("timeZone"))
+
+    const snapshot = await getSnapshotStore().latest()
+    if (!snapshot) {
+      return NextResponse.json({ error: "No scrape has been stored yet" }, { status: 404 })
+    }
+
+    const table = buildEventTable(queryEvents(snapshot.events, query), { columns, timeZone })
+    const filename = `monopoly-go-events-${snapshot.createdAt.split("T")[0]}.${format}`
+
+    return new Response(format === "csv" ? toCsv(table) : Buffer.from(toXlsx(table)), {
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : XLSX_CONTENT_TYPE,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof BadRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to export events" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { BadRequestError } from "@/lib/errors"
+import { matchesQuery, parseEventQuery } from "@/lib/events/query"
+import { buildAtomFeed } from "@/lib/export/atom"
+import { parseExportTimeZone } from "@/lib/export/table"
+import { findAnnouncements, getSnapshotStore } from "@/lib/snapshots"
+
+const DEFAULT_SCRAPES = 20
+const MAX_SCRAPES = 100
+
+// Atom feed of events that newly appeared between consecutive stored scrapes. Takes the same filters as
+// /api/events, ?timeZone= for the times in entry titles and ?scrapes= for how far back to look
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+
+  try {
+    const query = parseEventQuery(params)
+    const timeZone = parseExportTimeZone(params.get("timeZone"))
+    const scrapes = Number(params.get("scrapes") || DEFAULT_SCRAPES)
+    if (!Number.isInteger(scrapes) || scrapes < 1) {
+      throw new BadRequestError(`Invalid scrapes: ${params.get("scrapes")}`)
+    }
+
+    const announcements = await findAnnouncements(getSnapshotStore(), Math.min(scrapes, MAX_SCRAPES))
+    const feed = buildAtomFeed(
+      announcements.filter(({ event }) => matchesQuery(event, query)),
+      {
+        title: "Monopoly Go: newly announced events",
+        selfUrl: request.nextUrl.href,
+        siteUrl: request.nextUrl.origin,
+        timeZone,
+        updatedAt: new Date().toISOString(),
+      },
+    )
+
+    return new Response(feed, {
+      headers: {
+        "Content-Type": "application/atom+xml; charset=utf-8",
+        "Cache-Control": "public, max-age=300",
+      },
+    })
+  } catch (error) {
+    if (error instanceof BadRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to build feed" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { BadRequestError } from "@/lib/errors"
+import { upcomingEvents } from "@/lib/events/live"
+import { parseInstant } from "@/lib/events/query"
+import { getSnapshotStore, summarizeSnapshot } from "@/lib/snapshots"
+
+const DEFAULT_LIMIT = 5
+const MAX_LIMIT = 50
+
+// The next ?limit= events to start after now, or after ?at=<instant>, with the time until each starts
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+
+  try {
+    const atParam = params.get("at")
+    const at = atParam ? new Date(parseInstant("at", atParam)) : new Date()
+
+    const limit = Number(params.get("limit") || DEFAULT_LIMIT)
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new BadRequestError(`Invalid limit: ${params.get("limit")}`)
+    }
+
+    const snapshot = await getSnapshotStore().latest()
+    if (!snapshot) {
+      return NextResponse.json({ error: "No scrape has been stored yet" }, { status: 404 })
+    }
+
+    const events = upcomingEvents(snapshot.events, at, Math.min(limit, MAX_LIMIT))
+    return NextResponse.json({
+      at: at.toISOString(),
+      snapshot: summarizeSnapshot(snapshot),
+      count: events.length,
+      events,
+    })
+  } catch (error) {
+    if (error instanceof BadRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load events" },
+      { status: 500 },
+    )
+  }
+}
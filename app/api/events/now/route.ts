@@ -0,0 +1,34 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { BadRequestError } from "@/lib/errors"
+import { activeEvents } from "@/lib/events/live"
+import { parseInstant } from "@/lib/events/query"
+import { getSnapshotStore, summarizeSnapshot } from "@/lib/snapshots"
+
+// Events running right now, or at ?at=<instant>, with the time each has left
+export async function GET(request: NextRequest) {
+  try {
+    const atParam = request.nextUrl.searchParams.get("at")
+    const at = atParam ? new Date(parseInstant("at", atParam)) : new Date()
+
+    const snapshot = await getSnapshotStore().latest()
+    if (!snapshot) {
+      return NextResponse.json({ error: "No scrape has been stored yet" }, { status: 404 })
+    }
+
+    const events = activeEvents(snapshot.events, at)
+    return NextResponse.json({
+      at: at.toISOString(),
+      snapshot: summarizeSnapshot(snapshot),
+      count: events.length,
+      events,
+    })
+  } catch (error) {
+    if (error instanceof BadRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load events" },
+      { status: 500 },
+    )
+  }
+}
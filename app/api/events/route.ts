@@ -0,0 +1,34 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { BadRequestError } from "@/lib/errors"
+import { parseEventQuery, queryEvents } from "@/lib/events/query"
+import { getSnapshotStore, summarizeSnapshot } from "@/lib/snapshots"
+
+// Events from the latest stored scrape (or ?snapshot=<id>) as plain JSON, narrowed by the query filters
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+
+  try {
+    const query = parseEventQuery(params)
+
+    const store = getSnapshotStore()
+    const snapshotId = params.get("snapshot")
+    const snapshot = snapshotId ? await store.get(snapshotId) : await store.latest()
+    if (!snapshot) {
+      return NextResponse.json(
+        { error: snapshotId ? `Snapshot ${snapshotId} not found` : "No scrape has been stored yet" },
+        { status: 404 },
+      )
+    }
+
+    const events = queryEvents(snapshot.events, query)
+    return NextResponse.json({ snapshot: summarizeSnapshot(snapshot), query, count: events.length, events })
+  } catch (error) {
+    if (error instanceof BadRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load events" },
+      { status: 500 },
+    )
+  }
+}
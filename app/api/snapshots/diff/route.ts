@@ -0,0 +1,62 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { diffSchedules, getSnapshotStore, summarizeSnapshot, type ScheduleSnapshot } from "@/lib/snapshots"
+
+const RELATIVE_SINCE_PATTERN = /^(\d+)\s*(m|h|d)$/
+const UNIT_MS = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }
+
+// "24h", "7d" or an ISO timestamp, relative to the newer snapshot
+function resolveSince(since: string, reference: string): string | null {
+  const relative = since.match(RELATIVE_SINCE_PATTERN)
+  if (relative) {
+    const ms = Number(relative[1]) * UNIT_MS[relative[2] as keyof typeof UNIT_MS]
+    return new Date(Date.parse(reference) - ms).toISOString()
+  }
+
+  const instant = Date.parse(since)
+  return isNaN(instant) ? null : new Date(instant).toISOString()
+}
+
+// Compare two stored scrapes: ?from=<id>&to=<id>, or ?since=24h. Defaults to the latest two.
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const store = getSnapshotStore()
+
+  try {
+    const to = params.get("to") ? await store.get(params.get("to")!) : await store.latest()
+    if (!to) {
+      return NextResponse.json({ error: "No snapshot to compare against" }, { status: 404 })
+    }
+
+    let from: ScheduleSnapshot | null = null
+    if (params.get("from")) {
+      from = await store.get(params.get("from")!)
+    } else {
+      let before = to.createdAt
+      if (params.get("since")) {
+        const since = resolveSince(params.get("since")!, to.createdAt)
+        if (!since) {
+          return NextResponse.json({ error: `Invalid since value: ${params.get("since")}` }, { status: 400 })
+        }
+        before = since
+      }
+
+      const [previous] = (await store.list({ before, limit: 2 })).filter((snapshot) => snapshot.id !== to.id)
+      from = previous ? await store.get(previous.id) : null
+    }
+
+    if (!from) {
+      return NextResponse.json({ error: "No earlier snapshot to compare with" }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      from: summarizeSnapshot(from),
+      to: summarizeSnapshot(to),
+      diff: diffSchedules(from.events, to.events, { asOf: to.createdAt }),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to compare snapshots" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getSnapshotStore } from "@/lib/snapshots"
+
+export async function GET(request: NextRequest) {
+  const limitParam = request.nextUrl.searchParams.get("limit")
+  const limit = Number(limitParam || 50)
+  if (!Number.isInteger(limit) || limit < 1) {
+    return NextResponse.json({ error: `Invalid limit: ${limitParam}` }, { status: 400 })
+  }
+
+  try {
+    const snapshots = await getSnapshotStore().list({ limit: Math.min(limit, 500) })
+    return NextResponse.json({ snapshots })
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to list snapshots" },
+      { status: 500 },
+    )
+  }
+}
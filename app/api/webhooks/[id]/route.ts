@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { getWebhookRegistry, requireWebhookAdmin } from "@/lib/webhooks"
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const denied = requireWebhookAdmin(request)
+  if (denied) return denied
+
+  const { id } = await params
+
+  try {
+    const removed = await getWebhookRegistry().remove(id)
+    return NextResponse.json({ removed }, { status: removed ? 200 : 404 })
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to remove webhook" },
+      { status: 500 },
+    )
+  }
+}
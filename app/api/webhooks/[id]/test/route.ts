@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { getWebhookRegistry, requireWebhookAdmin, sendTestDelivery } from "@/lib/webhooks"
+
+// Send a signed "ping" with the latest change set to one webhook and report how the delivery went
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const denied = requireWebhookAdmin(request)
+  if (denied) return denied
+
+  const { id } = await params
+  const registry = getWebhookRegistry()
+
+  try {
+    const webhook = await registry.get(id)
+    if (!webhook) {
+      return NextResponse.json({ error: `Webhook ${id} not found` }, { status: 404 })
+    }
+
+    const delivery = await sendTestDelivery(registry, webhook)
+    return NextResponse.json({ delivery }, { status: delivery.status === "success" ? 200 : 502 })
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to send test delivery" },
+      { status: 500 },
+    )
+  }
+}
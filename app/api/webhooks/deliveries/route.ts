@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getWebhookRegistry, requireWebhookAdmin } from "@/lib/webhooks"
+
+// Delivery log, newest attempt first; ?webhookId= narrows it to one webhook
+export async function GET(request: NextRequest) {
+  const denied = requireWebhookAdmin(request)
+  if (denied) return denied
+
+  const params = request.nextUrl.searchParams
+  const limit = Number(params.get("limit") || 50)
+  if (!Number.isInteger(limit) || limit < 1) {
+    return NextResponse.json({ error: `Invalid limit: ${params.get("limit")}` }, { status: 400 })
+  }
+
+  try {
+    const deliveries = await getWebhookRegistry().deliveries({
+      limit: Math.min(limit, 500),
+      webhookId: params.get("webhookId") || undefined,
+    })
+    return NextResponse.json({ deliveries })
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to read delivery log" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { BadRequestError } from "@/lib/errors"
+import { getWebhookRegistry, requireWebhookAdmin, summarizeWebhook } from "@/lib/webhooks"
+
+export async function GET(request: NextRequest) {
+  const denied = requireWebhookAdmin(request)
+  if (denied) return denied
+
+  try {
+    const webhooks = await getWebhookRegistry().list()
+    return NextResponse.json({ webhooks: webhooks.map(summarizeWebhook) })
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to list webhooks" },
+      { status: 500 },
+    )
+  }
+}
+
+// Register { url, secret?, description? }. The secret, generated when not given, is only ever returned here.
+export async function POST(request: NextRequest) {
+  const denied = requireWebhookAdmin(request)
+  if (denied) return denied
+
+  try {
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body.url !== "string") {
+      return NextResponse.json({ error: "Expected a JSON body with a url" }, { status: 400 })
+    }
+
+    const webhook = await getWebhookRegistry().add({
+      url: body.url,
+      secret: typeof body.secret === "string" ? body.secret : undefined,
+      description: typeof body.description === "string" ? body.description : undefined,
+    })
+    return NextResponse.json({ webhook }, { status: 201 })
+  } catch (error) {
+    if (error instanceof BadRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to register webhook" },
+      { status: 500 },
+    )
+  }
+}
@@ -5,6 +5,10 @@ export const metadata: Metadata = {
   title: 'v0 App',
   description: 'Created with v0',
   generator: 'v0.dev',
+  // Lets feed readers discover the new-events feed from the page URL
+  alternates: {
+    types: { 'application/atom+xml': '/api/events/feed' },
+  },
 }
 
 export default function RootLayout({
@@ -1,44 +1,48 @@
 "use client"
 
-import { useState } from "react"
+import { useRef, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Loader2, Download, Clock, Info, RefreshCw, Globe, Timer } from "lucide-react"
+import { Loader2, Download, Clock, Info, RefreshCw, Globe, Timer, Square, CalendarDays, Link2 } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Progress } from "@/components/ui/progress"
-
-interface MonopolyEvent {
-  name: string
-  startTime: string
-  endTime: string
-  duration: string
-  type?: string
-  imageUrl?: string
-}
-
-interface EventsByDate {
-  [date: string]: MonopolyEvent[]
-}
-
-interface ScrapingMethod {
-  name: string
-  status: "pending" | "running" | "success" | "failed"
-  result?: any
-  error?: string
-  duration?: number
-}
+import { ScheduleChanges } from "@/components/schedule-changes"
+import { TableExport } from "@/components/table-export"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { FinalMessage, TransportMessage } from "@/lib/scraper/protocol"
+import type { EventsByDate, ScrapingMethod } from "@/lib/scraper/types"
 
 interface ApiResponse {
   success: boolean
   events?: EventsByDate
   methods?: ScrapingMethod[]
   successfulMethod?: string
+  live?: boolean
   totalMethods?: number
   error?: string
 }
 
+const LOCAL_TIMEZONE = "local"
+
+const COMMON_TIMEZONES = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/New_York",
+  "Europe/London",
+  "Europe/Berlin",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Australia/Sydney",
+]
+
+// How many times a dropped progress stream is resumed before giving up
+const MAX_RECONNECTS = 3
+
+// The server refused the stream request, e.g. because the run to resume has expired; asking again won't help
+class StreamRefusedError extends Error {}
+
 export default function MonopolyGoScraper() {
   const [events, setEvents] = useState<EventsByDate | null>(null)
   const [loading, setLoading] = useState(false)
@@ -46,24 +50,103 @@ export default function MonopolyGoScraper() {
   const [scrapingMethods, setScrapingMethods] = useState<ScrapingMethod[]>([])
   const [progress, setProgress] = useState(0)
   const [successfulMethod, setSuccessfulMethod] = useState<string | null>(null)
+  const [liveData, setLiveData] = useState(true)
+  const [unclassifiedEvents, setUnclassifiedEvents] = useState<string[]>([])
+  const [snapshotId, setSnapshotId] = useState<string | null>(null)
+  const [cacheInfo, setCacheInfo] = useState<FinalMessage["cached"] | null>(null)
+  const [displayTimeZone, setDisplayTimeZone] = useState<string>(LOCAL_TIMEZONE)
   const [estimatedTime, setEstimatedTime] = useState<number | null>(null)
+  const [cancelled, setCancelled] = useState(false)
+  // Set when this page stopped following a scrape that carries on for other clients
+  const [continuesElsewhere, setContinuesElsewhere] = useState(false)
+  const [feedCopied, setFeedCopied] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+  const runIdRef = useRef<string | null>(null)
+  // Identifies this page to the server, so Cancel detaches only this page from a shared run
+  const clientIdRef = useRef<string>("")
+  // Strategy whose partial results are on screen, until a final result replaces them
+  const [partialMethod, setPartialMethod] = useState<string | null>(null)
+  const partialMethodRef = useRef<string | null>(null)
+  // Last result a run finished with; partials replace it on screen but it comes back if the new run never completes
+  const completeEventsRef = useRef<EventsByDate | null>(null)
+
+  const restoreCompleteEvents = () => {
+    // Without an earlier result the partial dates are all there is, so they stay up as incomplete results
+    if (!partialMethodRef.current || !completeEventsRef.current) return
+    setEvents(completeEventsRef.current)
+    setPartialMethod(null)
+    partialMethodRef.current = null
+  }
 
-  const scrapeEvents = async () => {
+  const scrapeEvents = async (force = false) => {
+    // Previous events stay on screen until the new run replaces them
+    const controller = new AbortController()
+    abortRef.current = controller
     setLoading(true)
     setError(null)
-    setEvents(null)
+    setCancelled(false)
+    setContinuesElsewhere(false)
+    setPartialMethod(null)
+    partialMethodRef.current = null
     setScrapingMethods([])
     setProgress(0)
-    setSuccessfulMethod(null)
     setEstimatedTime(45) // Estimated 45 seconds for browser automation
 
     const startTime = Date.now()
 
-    try {
-      const response = await fetch("/api/scrape-events")
+    const handleMessage = (data: TransportMessage) => {
+      if (data.runId) runIdRef.current = data.runId
+
+      if (data.type === "progress") {
+        setProgress(data.progress)
+        setScrapingMethods(data.methods || [])
+
+        // Update estimated time based on progress
+        const elapsed = (Date.now() - startTime) / 1000
+        const remaining = data.progress > 0 ? (elapsed / data.progress) * (100 - data.progress) : 45
+        setEstimatedTime(Math.max(0, Math.round(remaining)))
+      } else if (data.type === "partial") {
+        // The first partial of a strategy replaces whatever was on screen, including an earlier strategy's partials
+        const replace = partialMethodRef.current !== data.method
+        partialMethodRef.current = data.method
+        setPartialMethod(data.method)
+        setEvents((current) => {
+          const merged: EventsByDate = { ...(replace ? {} : current), [data.date]: data.events }
+          return Object.fromEntries(Object.entries(merged).sort(([a], [b]) => a.localeCompare(b)))
+        })
+      } else if (data.type === "final") {
+        if (data.cancelled) {
+          setCancelled(true)
+          restoreCompleteEvents()
+        } else if (data.success && data.events) {
+          setPartialMethod(null)
+          partialMethodRef.current = null
+          completeEventsRef.current = data.events
+          setEvents(data.events)
+          setSuccessfulMethod(data.successfulMethod ?? null)
+          setLiveData(data.live !== false)
+          setUnclassifiedEvents(data.unclassifiedEvents || [])
+          if (data.snapshotId) setSnapshotId(data.snapshotId)
+          setCacheInfo(data.cached || null)
+        } else {
+          setError(data.error || "Failed to scrape events")
+          restoreCompleteEvents()
+        }
+        setEstimatedTime(0)
+      }
+    }
+
+    // Reads the stream until it ends; true if the final message arrived
+    const followStream = async (url: string) => {
+      const response = await fetch(url, { signal: controller.signal })
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+        const message = `HTTP ${response.status}: ${response.statusText}`
+        if (response.status >= 400 && response.status < 500) {
+          const body = await response.json().catch(() => null)
+          throw new StreamRefusedError(body?.error || message)
+        }
+        throw new Error(message)
       }
 
       const reader = response.body?.getReader()
@@ -74,6 +157,7 @@ export default function MonopolyGoScraper() {
       }
 
       let buffer = ""
+      let finished = false
 
       while (true) {
         const { done, value } = await reader.read()
@@ -89,39 +173,83 @@ export default function MonopolyGoScraper() {
         for (const line of lines) {
           if (line.trim()) {
             try {
-              const data = JSON.parse(line)
-
-              if (data.type === "progress") {
-                setProgress(data.progress)
-                setScrapingMethods(data.methods || [])
-
-                // Update estimated time based on progress
-                const elapsed = (Date.now() - startTime) / 1000
-                const remaining = data.progress > 0 ? (elapsed / data.progress) * (100 - data.progress) : 45
-                setEstimatedTime(Math.max(0, Math.round(remaining)))
-              } else if (data.type === "final") {
-                if (data.success && data.events) {
-                  setEvents(data.events)
-                  setSuccessfulMethod(data.successfulMethod)
-                } else {
-                  setError(data.error || "Failed to scrape events")
-                }
-                setEstimatedTime(0)
-              }
+              const data: TransportMessage = JSON.parse(line)
+              handleMessage(data)
+              if (data.type === "final") finished = true
             } catch (e) {
               console.error("Failed to parse JSON:", e)
             }
           }
         }
       }
+
+      return finished
+    }
+
+    runIdRef.current = null
+    clientIdRef.current = crypto.randomUUID()
+    const clientId = `clientId=${clientIdRef.current}`
+
+    try {
+      let finished = false
+      let lastError: unknown = null
+
+      // A stream that drops mid-run is resumed from the run's current state instead of starting over
+      for (let attempt = 0; !finished && attempt <= MAX_RECONNECTS; attempt++) {
+        const runId = runIdRef.current
+        if (attempt > 0) {
+          if (!runId) break
+          await new Promise((resolve) => setTimeout(resolve, 1000))
+        }
+
+        try {
+          finished = await followStream(
+            runId
+              ? `/api/scrape-events?runId=${runId}&${clientId}`
+              : `/api/scrape-events?${clientId}${force ? "&force=1" : ""}`,
+          )
+        } catch (err) {
+          if (controller.signal.aborted || !runIdRef.current || err instanceof StreamRefusedError) throw err
+          lastError = err
+        }
+      }
+
+      if (!finished) {
+        throw lastError instanceof Error ? lastError : new Error("Connection lost before the scrape finished")
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : "An error occurred")
+      if (!controller.signal.aborted) setError(err instanceof Error ? err.message : "An error occurred")
+      restoreCompleteEvents()
       setEstimatedTime(0)
     } finally {
+      if (abortRef.current === controller) abortRef.current = null
       setLoading(false)
     }
   }
 
+  const markCancelled = (methods: ScrapingMethod[]): ScrapingMethod[] =>
+    methods.map((method) => ({
+      ...method,
+      status: method.status === "running" ? "cancelled" : method.status,
+      steps: method.steps && markCancelled(method.steps),
+    }))
+
+  const cancelScrape = () => {
+    // Tell the server to stop the browser, then stop listening without waiting for its answer. The server keeps the
+    // scrape going when someone else is still following it
+    const runId = runIdRef.current ? `&runId=${runIdRef.current}` : ""
+    fetch(`/api/scrape-events?clientId=${clientIdRef.current}${runId}`, { method: "DELETE" })
+      .then((response) => response.json())
+      .then((result: { cancelled?: boolean; detached?: boolean }) => {
+        if (result.detached && !result.cancelled) setContinuesElsewhere(true)
+      })
+      .catch((err) => console.error("Failed to cancel scrape:", err))
+    abortRef.current?.abort()
+    setScrapingMethods(markCancelled)
+    setCancelled(true)
+    restoreCompleteEvents()
+  }
+
   const downloadJSON = () => {
     if (!events) return
 
@@ -135,23 +263,57 @@ export default function MonopolyGoScraper() {
     URL.revokeObjectURL(url)
   }
 
+  // webcal:// makes phones and desktop calendars offer to subscribe rather than import once
+  const copyCalendarFeed = async () => {
+    const feedUrl = `${window.location.origin.replace(/^http/, "webcal")}/api/calendar`
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      setFeedCopied(true)
+      setTimeout(() => setFeedCopied(false), 2000)
+    } catch {
+      window.prompt("Calendar feed URL", feedUrl)
+    }
+  }
+
+  const formatAge = (seconds: number) => {
+    if (seconds < 60) return `${seconds} seconds`
+    if (seconds < 3600) return `${Math.round(seconds / 60)} minutes`
+    return `${Math.round(seconds / 3600)} hours`
+  }
+
+  // Date keys are calendar dates in the source schedule, so render them without any zone shift
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleDateString("en-US", {
       weekday: "long",
       year: "numeric",
       month: "long",
       day: "numeric",
+      timeZone: "UTC",
     })
   }
 
   const formatTime = (timeStr: string) => {
-    return new Date(timeStr).toLocaleTimeString("en-US", {
+    return new Date(timeStr).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
       hour: "2-digit",
       minute: "2-digit",
       hour12: true,
+      timeZone: displayTimeZone === LOCAL_TIMEZONE ? undefined : displayTimeZone,
+      timeZoneName: "short",
     })
   }
 
+  const sourceTimeZones = events
+    ? Array.from(new Set(Object.values(events).flatMap((dayEvents) => dayEvents.map((e) => e.sourceTimeZone))))
+    : []
+  const timeZoneOptions = Array.from(new Set([...sourceTimeZones, ...COMMON_TIMEZONES])).filter(
+    (zone) => zone && !zone.match(/^[+-]\d{2}:\d{2}$/),
+  )
+
+  const formatStepName = (step: ScrapingMethod) =>
+    step.attempt && step.maxAttempts ? `${step.name} (attempt ${step.attempt}/${step.maxAttempts})` : step.name
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "success":
@@ -160,11 +322,26 @@ export default function MonopolyGoScraper() {
         return "bg-red-500"
       case "running":
         return "bg-blue-500"
+      case "cancelled":
+        return "bg-amber-500"
       default:
         return "bg-gray-300"
     }
   }
 
+  const getStatusVariant = (status: string) => {
+    switch (status) {
+      case "success":
+        return "default"
+      case "failed":
+        return "destructive"
+      case "cancelled":
+        return "outline"
+      default:
+        return "secondary"
+    }
+  }
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "success":
@@ -173,6 +350,8 @@ export default function MonopolyGoScraper() {
         return "✗"
       case "running":
         return <Loader2 className="h-3 w-3 animate-spin" />
+      case "cancelled":
+        return "■"
       default:
         return "○"
     }
@@ -190,8 +369,8 @@ export default function MonopolyGoScraper() {
             Advanced browser automation to extract real-time event data after content loads
           </p>
 
-          <div className="flex gap-4 justify-center">
-            <Button onClick={scrapeEvents} disabled={loading} size="lg" className="bg-red-600 hover:bg-red-700">
+          <div className="flex flex-wrap gap-4 justify-center">
+            <Button onClick={() => scrapeEvents()} disabled={loading} size="lg" className="bg-red-600 hover:bg-red-700">
               {loading ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -205,12 +384,34 @@ export default function MonopolyGoScraper() {
               )}
             </Button>
 
+            {loading && (
+              <Button onClick={cancelScrape} variant="outline" size="lg">
+                <Square className="mr-2 h-4 w-4" />
+                Cancel
+              </Button>
+            )}
+
             {events && (
               <Button onClick={downloadJSON} variant="outline" size="lg">
                 <Download className="mr-2 h-4 w-4" />
                 Download JSON
               </Button>
             )}
+
+            {snapshotId && (
+              <>
+                <Button asChild variant="outline" size="lg">
+                  <a href="/api/calendar?download=1">
+                    <CalendarDays className="mr-2 h-4 w-4" />
+                    Download .ics
+                  </a>
+                </Button>
+                <Button onClick={copyCalendarFeed} variant="outline" size="lg">
+                  <Link2 className="mr-2 h-4 w-4" />
+                  {feedCopied ? "Feed URL copied" : "Subscribe to Calendar"}
+                </Button>
+              </>
+            )}
           </div>
 
           {loading && estimatedTime !== null && estimatedTime > 0 && (
@@ -230,24 +431,46 @@ export default function MonopolyGoScraper() {
           </AlertDescription>
         </Alert>
 
-        {loading && (
+        {(loading || cancelled) && (
           <Card className="mb-6">
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
-                <Loader2 className="h-5 w-5 animate-spin" />
+                {cancelled ? <Square className="h-5 w-5 text-amber-500" /> : <Loader2 className="h-5 w-5 animate-spin" />}
                 Browser Automation Progress
               </CardTitle>
-              <CardDescription>Launching headless browser and waiting for dynamic content to load...</CardDescription>
+              <CardDescription>
+                {cancelled ? (
+                  <>
+                    {continuesElsewhere
+                      ? "Stopped following the scrape; it continues for other viewers."
+                      : "Scrape cancelled."}
+                    {events && !partialMethod && " Showing the previously loaded events."}
+                  </>
+                ) : (
+                  "Launching headless browser and waiting for dynamic content to load..."
+                )}
+              </CardDescription>
             </CardHeader>
             <CardContent>
               <Progress value={progress} className="mb-4" />
               <div className="space-y-2">
                 {scrapingMethods.map((method, index) => (
-                  <div key={index} className="flex items-center gap-3 p-2 rounded border">
-                    <div className={`w-3 h-3 rounded-full ${getStatusColor(method.status)}`} />
-                    <span className="flex-1 font-medium">{method.name}</span>
-                    <span className="text-sm text-gray-500">{getStatusIcon(method.status)}</span>
-                    {method.duration && <span className="text-xs text-gray-400">{method.duration}ms</span>}
+                  <div key={index} className="p-2 rounded border">
+                    <div className="flex items-center gap-3">
+                      <div className={`w-3 h-3 rounded-full ${getStatusColor(method.status)}`} />
+                      <span className="flex-1 font-medium">{method.name}</span>
+                      <span className="text-sm text-gray-500">{getStatusIcon(method.status)}</span>
+                      {method.duration && <span className="text-xs text-gray-400">{method.duration}ms</span>}
+                    </div>
+                    {method.status !== "pending" &&
+                      method.steps?.map((step, stepIndex) => (
+                        <div key={stepIndex} className="flex items-center gap-3 mt-1 ml-6 text-sm">
+                          <div className={`w-2 h-2 rounded-full ${getStatusColor(step.status)}`} />
+                          <span className="flex-1 text-gray-700">{formatStepName(step)}</span>
+                          <span className="text-xs text-gray-500">{getStatusIcon(step.status)}</span>
+                          {step.duration && <span className="text-xs text-gray-400">{step.duration}ms</span>}
+                        </div>
+                      ))}
                   </div>
                 ))}
               </div>
@@ -255,11 +478,57 @@ export default function MonopolyGoScraper() {
           </Card>
         )}
 
-        {successfulMethod && (
-          <Alert className="mb-6 border-green-200 bg-green-50">
+        {partialMethod && events && (
+          <Alert className="mb-6 border-amber-200 bg-amber-50">
+            <Info className="h-4 w-4" />
+            <AlertDescription className="text-amber-800">
+              <strong>{loading ? "Partial results:" : "Incomplete results:"}</strong>{" "}
+              {Object.keys(events).length} dates extracted so far by {partialMethod}
+              {loading ? ", more on the way." : " before the scrape stopped."}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {successfulMethod &&
+          !partialMethod &&
+          (liveData ? (
+            <Alert className="mb-6 border-green-200 bg-green-50">
+              <Info className="h-4 w-4" />
+              <AlertDescription className="text-green-800">
+                <strong>Success!</strong> Real data extracted using: {successfulMethod}
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <Alert className="mb-6 border-amber-200 bg-amber-50">
+              <Info className="h-4 w-4" />
+              <AlertDescription className="text-amber-800">
+                <strong>Live extraction failed.</strong> Showing offline data from: {successfulMethod}
+              </AlertDescription>
+            </Alert>
+          ))}
+
+        {cacheInfo && !partialMethod && (
+          <Alert className="mb-6 border-blue-200 bg-blue-50">
+            <Clock className="h-4 w-4" />
+            <AlertDescription className="flex flex-wrap items-center justify-between gap-2 text-blue-800">
+              <span>
+                <strong>Served from cache:</strong> scraped {formatAge(cacheInfo.ageSeconds)} ago
+                {cacheInfo.stale && (cacheInfo.refreshing ? ", refreshing in the background" : ", may be outdated")}.
+              </span>
+              <Button onClick={() => scrapeEvents(true)} variant="outline" size="sm" disabled={loading}>
+                <RefreshCw className="mr-2 h-3 w-3" />
+                Scrape fresh
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {unclassifiedEvents.length > 0 && (
+          <Alert className="mb-6 border-amber-200 bg-amber-50">
             <Info className="h-4 w-4" />
-            <AlertDescription className="text-green-800">
-              <strong>Success!</strong> Real data extracted using: {successfulMethod}
+            <AlertDescription className="text-amber-800">
+              <strong>Unrecognised events:</strong> {unclassifiedEvents.join(", ")}. Add them to the event type rules
+              to classify them.
             </AlertDescription>
           </Alert>
         )}
@@ -271,20 +540,38 @@ export default function MonopolyGoScraper() {
         )}
 
         <Tabs defaultValue="events" className="mb-6">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="events">Event Data</TabsTrigger>
             <TabsTrigger value="methods">Browser Steps</TabsTrigger>
-            <TabsTrigger value="json">Raw JSON</TabsTrigger>
+            <TabsTrigger value="changes">Changes</TabsTrigger>
+            <TabsTrigger value="json">Export</TabsTrigger>
           </TabsList>
 
           <TabsContent value="events">
             {events ? (
               <div className="space-y-6">
-                <div className="text-center">
+                <div className="flex flex-wrap items-center justify-center gap-4">
                   <Badge variant="secondary" className="text-lg px-4 py-2">
                     Found {Object.keys(events).length} event dates with {Object.values(events).flat().length} total
                     events
                   </Badge>
+                  <div className="flex items-center gap-2 text-sm text-gray-600">
+                    <Globe className="h-4 w-4" />
+                    <Select value={displayTimeZone} onValueChange={setDisplayTimeZone}>
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={LOCAL_TIMEZONE}>My timezone</SelectItem>
+                        {timeZoneOptions.map((zone) => (
+                          <SelectItem key={zone} value={zone}>
+                            {zone}
+                            {sourceTimeZones.includes(zone) ? " (schedule)" : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
 
                 {Object.entries(events).map(([date, dayEvents]) => (
@@ -330,11 +617,21 @@ export default function MonopolyGoScraper() {
                                 <Badge variant="secondary" className="text-xs">
                                   Duration: {event.duration}
                                 </Badge>
+                                {event.durationInfo?.mismatch && (
+                                  <Badge
+                                    variant="outline"
+                                    className="text-xs border-amber-300 text-amber-700"
+                                    title={event.durationInfo.mismatchReason}
+                                  >
+                                    Duration mismatch
+                                  </Badge>
+                                )}
                               </div>
                             </div>
 
                             <div className="mt-3 text-xs text-gray-500 font-mono">
-                              {event.startTime} - {event.endTime}
+                              {event.startTime} - {event.endTime} (source {event.sourceTimeZone}, UTC
+                              {event.utcOffset})
                             </div>
                           </div>
                         ))}
@@ -365,19 +662,16 @@ export default function MonopolyGoScraper() {
                       <div key={index} className="border rounded-lg p-4">
                         <div className="flex items-center justify-between mb-2">
                           <h3 className="font-semibold">{method.name}</h3>
-                          <Badge
-                            variant={
-                              method.status === "success"
-                                ? "default"
-                                : method.status === "failed"
-                                  ? "destructive"
-                                  : "secondary"
-                            }
-                          >
+                          <Badge variant={getStatusVariant(method.status)}>
                             {method.status}
                           </Badge>
                         </div>
                         {method.error && <p className="text-sm text-red-600 mb-2">{method.error}</p>}
+                        {method.warnings?.map((warning, warningIndex) => (
+                          <p key={warningIndex} className="text-sm text-amber-700 mb-2">
+                            ⚠ {warning}
+                          </p>
+                        ))}
                         {method.duration && (
                           <p className="text-xs text-gray-500">Execution time: {method.duration}ms</p>
                         )}
@@ -386,6 +680,22 @@ export default function MonopolyGoScraper() {
                             {JSON.stringify(method.result, null, 2)}
                           </pre>
                         )}
+                        {method.steps && method.steps.length > 0 && (
+                          <div className="mt-3 space-y-2 border-l-2 pl-4">
+                            {method.steps.map((step, stepIndex) => (
+                              <div key={stepIndex}>
+                                <div className="flex items-center justify-between">
+                                  <span className="text-sm font-medium">{formatStepName(step)}</span>
+                                  <span className="flex items-center gap-2 text-xs text-gray-500">
+                                    {step.duration && <span>{step.duration}ms</span>}
+                                    <Badge variant={getStatusVariant(step.status)}>{step.status}</Badge>
+                                  </span>
+                                </div>
+                                {step.error && <p className="text-xs text-red-600">{step.error}</p>}
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -396,7 +706,19 @@ export default function MonopolyGoScraper() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="changes">
+            <ScheduleChanges refreshKey={snapshotId} />
+          </TabsContent>
+
           <TabsContent value="json">
+            {events && (
+              <TableExport
+                events={events}
+                timeZone={
+                  displayTimeZone === LOCAL_TIMEZONE ? Intl.DateTimeFormat().resolvedOptions().timeZone : displayTimeZone
+                }
+              />
+            )}
             <Card>
               <CardHeader>
                 <CardTitle>Raw JSON Output</CardTitle>
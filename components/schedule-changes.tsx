@@ -0,0 +1,203 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2, RefreshCw } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { DatedEvent, ScheduleDiff, SnapshotSummary } from "@/lib/snapshots"
+
+interface DiffResponse {
+  from: SnapshotSummary
+  to: SnapshotSummary
+  diff: ScheduleDiff
+  error?: string
+}
+
+const PREVIOUS = "previous"
+
+const formatInstant = (value: string) =>
+  new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: true,
+  })
+
+const describeSnapshot = (snapshot: SnapshotSummary) =>
+  `${formatInstant(snapshot.createdAt)} · ${snapshot.totalEvents} events · ${snapshot.method}`
+
+function EventLine({ event }: { event: DatedEvent }) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="font-medium">{event.name}</span>
+      <span className="text-gray-500">
+        {formatInstant(event.startTime)} - {formatInstant(event.endTime)}
+      </span>
+      {event.type && <Badge variant="outline">{event.type}</Badge>}
+    </div>
+  )
+}
+
+export function ScheduleChanges({ refreshKey }: { refreshKey?: string | null }) {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([])
+  const [fromId, setFromId] = useState<string>(PREVIOUS)
+  const [toId, setToId] = useState<string>("")
+  const [result, setResult] = useState<DiffResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSnapshots = async () => {
+    try {
+      const response = await fetch("/api/snapshots?limit=100")
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`)
+      setSnapshots(data.snapshots)
+      setToId((current) => current || data.snapshots[0]?.id || "")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load snapshots")
+    }
+  }
+
+  const compare = async () => {
+    if (!toId) return
+    setLoading(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams({ to: toId })
+      if (fromId !== PREVIOUS) params.set("from", fromId)
+
+      const response = await fetch(`/api/snapshots/diff?${params}`)
+      const data: DiffResponse = await response.json()
+      if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`)
+      setResult(data)
+    } catch (err) {
+      setResult(null)
+      setError(err instanceof Error ? err.message : "Failed to compare snapshots")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Reload the history whenever a new scrape has been stored
+  useEffect(() => {
+    setToId("")
+    loadSnapshots()
+  }, [refreshKey])
+
+  useEffect(() => {
+    if (snapshots.length >= 2) compare()
+  }, [snapshots, toId, fromId])
+
+  const diff = result?.diff
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Schedule Changes</CardTitle>
+        <CardDescription>Events that appeared, disappeared or moved between two stored scrapes</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {snapshots.length < 2 ? (
+          <p className="text-gray-500 text-center py-8">At least two stored scrapes are needed to compare.</p>
+        ) : (
+          <div className="grid md:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+            <div className="space-y-1">
+              <span className="text-sm text-gray-600">Compare</span>
+              <Select value={fromId} onValueChange={setFromId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PREVIOUS}>Previous scrape</SelectItem>
+                  {snapshots.map((snapshot) => (
+                    <SelectItem key={snapshot.id} value={snapshot.id}>
+                      {describeSnapshot(snapshot)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <span className="text-sm text-gray-600">With</span>
+              <Select value={toId} onValueChange={setToId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {snapshots.map((snapshot) => (
+                    <SelectItem key={snapshot.id} value={snapshot.id}>
+                      {describeSnapshot(snapshot)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={compare} disabled={loading}>
+              {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            </Button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {diff && (
+          <div className="space-y-6">
+            <div className="flex flex-wrap gap-2">
+              <Badge className="bg-green-600">{diff.added.length} added</Badge>
+              <Badge variant="destructive">{diff.removed.length} removed</Badge>
+              <Badge className="bg-amber-500">{diff.changed.length} changed</Badge>
+              <Badge variant="secondary">{diff.unchanged} unchanged</Badge>
+            </div>
+
+            {diff.added.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold text-green-700">Added</h3>
+                {diff.added.map((event, index) => (
+                  <div key={index} className="border-l-4 border-green-500 pl-3">
+                    <EventLine event={event} />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {diff.removed.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold text-red-700">Removed</h3>
+                {diff.removed.map((event, index) => (
+                  <div key={index} className="border-l-4 border-red-500 pl-3 opacity-75">
+                    <EventLine event={event} />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {diff.changed.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold text-amber-700">Changed</h3>
+                {diff.changed.map((change, index) => (
+                  <div key={index} className="border-l-4 border-amber-500 pl-3 space-y-1">
+                    <span className="font-medium text-sm">{change.name}</span>
+                    {change.changes.map((field) => (
+                      <div key={field} className="text-xs text-gray-600 font-mono">
+                        {field}: <span className="line-through">{String(change.before[field] ?? "—")}</span> →{" "}
+                        {String(change.after[field] ?? "—")}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {diff.added.length + diff.removed.length + diff.changed.length === 0 && (
+              <p className="text-gray-500 text-center py-4">No changes between these scrapes.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
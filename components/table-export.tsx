@@ -0,0 +1,74 @@
+"use client"
+
+import { useState } from "react"
+import { FileSpreadsheet, FileText } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { uniqueEvents } from "@/lib/events/query"
+import { toCsv } from "@/lib/export/csv"
+import { buildEventTable, COLUMN_LABELS, EXPORT_COLUMNS, type ExportColumn } from "@/lib/export/table"
+import { toXlsx, XLSX_CONTENT_TYPE } from "@/lib/export/xlsx"
+import type { EventsByDate } from "@/lib/scraper/types"
+
+const download = (data: BlobPart, type: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Exports the events on screen, with times rendered in the zone the page is showing
+export function TableExport({ events, timeZone }: { events: EventsByDate; timeZone: string }) {
+  const [columns, setColumns] = useState<ExportColumn[]>(EXPORT_COLUMNS)
+
+  const toggleColumn = (column: ExportColumn, checked: boolean) => {
+    // Keep the canonical column order whatever order they were ticked in
+    setColumns((current) =>
+      EXPORT_COLUMNS.filter((candidate) => (candidate === column ? checked : current.includes(candidate))),
+    )
+  }
+
+  const exportAs = (format: "csv" | "xlsx") => {
+    const table = buildEventTable(uniqueEvents(events), { columns, timeZone })
+    const filename = `monopoly-go-events-${new Date().toISOString().split("T")[0]}.${format}`
+    if (format === "csv") download(toCsv(table), "text/csv;charset=utf-8", filename)
+    else download(new Uint8Array(toXlsx(table)), XLSX_CONTENT_TYPE, filename)
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Spreadsheet Export</CardTitle>
+        <CardDescription>One row per event, with times in {timeZone}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-4">
+          {EXPORT_COLUMNS.map((column) => (
+            <div key={column} className="flex items-center gap-2">
+              <Checkbox
+                id={`export-${column}`}
+                checked={columns.includes(column)}
+                onCheckedChange={(checked) => toggleColumn(column, checked === true)}
+              />
+              <Label htmlFor={`export-${column}`}>{COLUMN_LABELS[column]}</Label>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={() => exportAs("csv")} variant="outline" disabled={columns.length === 0}>
+            <FileText className="mr-2 h-4 w-4" />
+            Download CSV
+          </Button>
+          <Button onClick={() => exportAs("xlsx")} variant="outline" disabled={columns.length === 0}>
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            Download XLSX
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,2 @@
+// A request the client got wrong, such as a malformed query parameter; API routes answer it with a 400
+export class BadRequestError extends Error {}
@@ -0,0 +1,56 @@
+import type { EventsByDate } from "@/lib/scraper/types"
+import type { DatedEvent } from "@/lib/snapshots"
+import { uniqueEvents } from "./query"
+
+export interface ActiveEvent extends DatedEvent {
+  endsInSeconds: number
+  remaining: string
+}
+
+export interface UpcomingEvent extends DatedEvent {
+  startsInSeconds: number
+  startsIn: string
+}
+
+// "1d 4h 5m"; under a minute shows seconds
+export function formatSpan(seconds: number): string {
+  if (seconds < 60) return `${Math.max(0, seconds)}s`
+
+  const minutes = Math.floor(seconds / 60)
+  const parts: [number, string][] = [
+    [Math.floor(minutes / 1440), "d"],
+    [Math.floor((minutes % 1440) / 60), "h"],
+    [minutes % 60, "m"],
+  ]
+  return parts
+    .filter(([value]) => value > 0)
+    .map(([value, unit]) => `${value}${unit}`)
+    .join(" ")
+}
+
+const secondsBetween = (from: number, to: number) => Math.round((to - from) / 1000)
+
+// Events running at the instant, ending soonest first
+export function activeEvents(eventsByDate: EventsByDate, at: Date = new Date()): ActiveEvent[] {
+  const now = at.getTime()
+  return uniqueEvents(eventsByDate)
+    .filter((event) => Date.parse(event.startTime) <= now && now < Date.parse(event.endTime))
+    .map((event) => {
+      const endsInSeconds = secondsBetween(now, Date.parse(event.endTime))
+      return { ...event, endsInSeconds, remaining: formatSpan(endsInSeconds) }
+    })
+    .sort((a, b) => a.endsInSeconds - b.endsInSeconds)
+}
+
+// The next events to start after the instant, soonest first
+export function upcomingEvents(eventsByDate: EventsByDate, at: Date = new Date(), limit = 5): UpcomingEvent[] {
+  const now = at.getTime()
+  return uniqueEvents(eventsByDate)
+    .filter((event) => Date.parse(event.startTime) > now)
+    .map((event) => {
+      const startsInSeconds = secondsBetween(now, Date.parse(event.startTime))
+      return { ...event, startsInSeconds, startsIn: formatSpan(startsInSeconds) }
+    })
+    .sort((a, b) => a.startsInSeconds - b.startsInSeconds)
+    .slice(0, limit)
+}
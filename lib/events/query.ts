@@ -0,0 +1,110 @@
+import { BadRequestError } from "@/lib/errors"
+import type { EventsByDate } from "@/lib/scraper/types"
+import { flattenEvents, type DatedEvent } from "@/lib/snapshots/diff"
+
+export interface EventQuery {
+  // Events overlapping this window are kept; either end may be open
+  from?: string
+  to?: string
+  // Lowercased; an event matches any of them
+  types?: string[]
+  search?: string
+  // Compared against the parsed duration, so events with an unknown duration never match these
+  minDurationMinutes?: number
+  maxDurationMinutes?: number
+  // Only events running at this instant
+  liveAt?: string
+}
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Plain dates cover the whole UTC day, so ?to=2025-05-30 includes events starting that afternoon
+export function parseInstant(name: string, value: string, endOfDay = false): string {
+  const instant = Date.parse(DATE_ONLY_PATTERN.test(value) ? `${value}T00:00:00Z` : value)
+  if (isNaN(instant)) throw new BadRequestError(`Invalid ${name}: ${value}`)
+  return new Date(DATE_ONLY_PATTERN.test(value) && endOfDay ? instant + DAY_MS - 1 : instant).toISOString()
+}
+
+function parseMinutes(name: string, value: string): number {
+  const minutes = Number(value)
+  if (value.trim() === "" || !Number.isFinite(minutes) || minutes < 0) {
+    throw new BadRequestError(`Invalid ${name}: ${value}. Use a number of minutes.`)
+  }
+  return minutes
+}
+
+export function parseEventQuery(params: URLSearchParams): EventQuery {
+  const query: EventQuery = {}
+
+  const from = params.get("from")
+  const to = params.get("to")
+  if (from) query.from = parseInstant("from", from)
+  if (to) query.to = parseInstant("to", to, true)
+  if (query.from && query.to && query.from > query.to) throw new BadRequestError("from must not be after to")
+
+  // ?type=Tournament,Banner or ?type=Tournament&type=Banner
+  const types = params
+    .getAll("type")
+    .flatMap((value) => value.split(","))
+    .map((type) => type.trim().toLowerCase())
+    .filter(Boolean)
+  if (types.length > 0) query.types = types
+
+  const search = params.get("search") || params.get("q")
+  if (search?.trim()) query.search = search.trim().toLowerCase()
+
+  const minDuration = params.get("minDuration")
+  const maxDuration = params.get("maxDuration")
+  if (minDuration) query.minDurationMinutes = parseMinutes("minDuration", minDuration)
+  if (maxDuration) query.maxDurationMinutes = parseMinutes("maxDuration", maxDuration)
+
+  const liveAt = params.get("liveAt")
+  if (liveAt) query.liveAt = liveAt === "now" ? new Date().toISOString() : parseInstant("liveAt", liveAt)
+
+  return query
+}
+
+const isoMs = (value: string) => Date.parse(value)
+
+export function matchesQuery(event: DatedEvent, query: EventQuery): boolean {
+  const start = isoMs(event.startTime)
+  const end = isoMs(event.endTime)
+
+  if (query.from && end < isoMs(query.from)) return false
+  if (query.to && start > isoMs(query.to)) return false
+  if (query.types && !query.types.includes((event.type || "").toLowerCase())) return false
+  if (query.search && !event.name.toLowerCase().includes(query.search)) return false
+
+  if (query.minDurationMinutes !== undefined || query.maxDurationMinutes !== undefined) {
+    const minutes = event.durationInfo?.minutes
+    if (minutes === null || minutes === undefined) return false
+    if (query.minDurationMinutes !== undefined && minutes < query.minDurationMinutes) return false
+    if (query.maxDurationMinutes !== undefined && minutes > query.maxDurationMinutes) return false
+  }
+
+  if (query.liveAt) {
+    const at = isoMs(query.liveAt)
+    if (start > at || end <= at) return false
+  }
+
+  return true
+}
+
+// Multi-day events are listed under every date they run on; report each occurrence once
+export function uniqueEvents(eventsByDate: EventsByDate): DatedEvent[] {
+  const seen = new Set<string>()
+  return flattenEvents(eventsByDate).filter((event) => {
+    const key = `${event.name}|${event.startTime}|${event.endTime}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+// Flat list of matching events in start order, each occurrence once and tagged with the first date it is listed under
+export function queryEvents(eventsByDate: EventsByDate, query: EventQuery): DatedEvent[] {
+  return uniqueEvents(eventsByDate)
+    .filter((event) => matchesQuery(event, query))
+    .sort((a, b) => a.startTime.localeCompare(b.startTime))
+}
@@ -0,0 +1,42 @@
+import { BadRequestError } from "@/lib/errors"
+import type { MonopolyEvent } from "@/lib/scraper/types"
+
+export interface AlarmRule {
+  minutesBefore: number
+  // Event type or event name, matched case-insensitively; absent for every event
+  target?: string
+}
+
+const MAX_ALARM_RULES = 20
+const MAX_MINUTES_BEFORE = 7 * 24 * 60
+const ALARM_PATTERN = /^(\d+)(?::(.+))?$/
+
+// "10:Tournament" is 10 minutes before every Tournament, "0:High Roller" is at the start of High Roller,
+// a bare "15" is 15 minutes before everything
+export function parseAlarmRules(values: string[]): AlarmRule[] {
+  if (values.length > MAX_ALARM_RULES) throw new BadRequestError(`At most ${MAX_ALARM_RULES} alarms are allowed`)
+
+  return values.map((value) => {
+    const match = value.trim().match(ALARM_PATTERN)
+    if (!match) throw new BadRequestError(`Invalid alarm: ${value}. Use <minutes before>[:<event type or name>].`)
+
+    const minutesBefore = Number(match[1])
+    if (minutesBefore > MAX_MINUTES_BEFORE) {
+      throw new BadRequestError(`Invalid alarm: ${value}. At most ${MAX_MINUTES_BEFORE} minutes before.`)
+    }
+
+    const target = match[2]?.trim()
+    return target ? { minutesBefore, target } : { minutesBefore }
+  })
+}
+
+const normalize = (value: string) => value.trim().toLowerCase()
+
+// Distinct lead times, in minutes, of the rules that apply to this event
+export function alarmsFor(event: Pick<MonopolyEvent, "name" | "type">, rules: AlarmRule[]): number[] {
+  const names = [normalize(event.name), normalize(event.type || "")]
+  const minutes = rules
+    .filter((rule) => !rule.target || names.includes(normalize(rule.target)))
+    .map((rule) => rule.minutesBefore)
+  return [...new Set(minutes)].sort((a, b) => b - a)
+}
@@ -0,0 +1,69 @@
+import { formatInTimeZone } from "@/lib/scraper/timezone"
+import type { Announcement, DatedEvent } from "@/lib/snapshots"
+import { eventHash, imageType } from "./ical"
+import { escapeXml } from "./xml"
+
+export interface AtomFeedOptions {
+  title: string
+  // Absolute URL of the feed itself and of the page it belongs to
+  selfUrl: string
+  siteUrl: string
+  timeZone?: string
+  // <updated> when there are no entries
+  updatedAt: string
+}
+
+const TAG_AUTHORITY = "mgscraper"
+
+// Stable per event occurrence and per announcement, so re-announcing a removed and restored event is a new entry
+export function entryId({ event, snapshotId }: Announcement): string {
+  return `tag:${TAG_AUTHORITY},2025:event:${eventHash(event)}:${snapshotId}`
+}
+
+// "High Roller: 2025-05-29 01:00 - 2025-05-29 06:59 UTC"
+export function entryTitle(event: DatedEvent, timeZone = "UTC"): string {
+  const format = (iso: string) => formatInTimeZone(iso, timeZone).slice(0, 16)
+  return `${event.name}: ${format(event.startTime)} - ${format(event.endTime)} ${timeZone}`
+}
+
+function entryXml(announced: Announcement, options: AtomFeedOptions): string {
+  const { event } = announced
+  const summary = [event.type, `Duration: ${event.duration}`].filter(Boolean).join(" · ")
+
+  return [
+    "<entry>",
+    `<id>${escapeXml(entryId(announced))}</id>`,
+    `<title>${escapeXml(entryTitle(event, options.timeZone))}</title>`,
+    `<updated>${announced.announcedAt}</updated>`,
+    `<published>${announced.announcedAt}</published>`,
+    `<link rel="alternate" href="${escapeXml(options.siteUrl)}"/>`,
+    ...(event.imageUrl
+      ? [`<link rel="enclosure" type="${imageType(event.imageUrl)}" href="${escapeXml(event.imageUrl)}"/>`]
+      : []),
+    ...(event.type ? [`<category term="${escapeXml(event.type)}"/>`] : []),
+    `<summary>${escapeXml(summary)}</summary>`,
+    "</entry>",
+  ].join("\n")
+}
+
+// Newest announcements first
+export function buildAtomFeed(entries: Announcement[], options: AtomFeedOptions): string {
+  const sorted = [...entries].sort(
+    (a, b) => b.announcedAt.localeCompare(a.announcedAt) || a.event.startTime.localeCompare(b.event.startTime),
+  )
+  const updated = sorted[0]?.announcedAt ?? options.updatedAt
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `<id>${escapeXml(options.selfUrl)}</id>`,
+    `<title>${escapeXml(options.title)}</title>`,
+    `<updated>${updated}</updated>`,
+    `<link rel="self" type="application/atom+xml" href="${escapeXml(options.selfUrl)}"/>`,
+    `<link rel="alternate" href="${escapeXml(options.siteUrl)}"/>`,
+    "<author><name>Monopoly Go Scraper</name></author>",
+    ...sorted.map((entry) => entryXml(entry, options)),
+    "</feed>",
+    "",
+  ].join("\n")
+}
@@ -0,0 +1,14 @@
+import type { EventTable, TableCell } from "./table"
+
+const cellText = (cell: TableCell) => (cell.kind === "empty" ? "" : String(cell.value))
+
+// RFC 4180 quoting; values that look like formulas are prefixed so spreadsheets don't evaluate them
+export function escapeCsv(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+export function toCsv(table: EventTable): string {
+  const lines = [table.header, ...table.rows.map((row) => row.map(cellText))]
+  return lines.map((line) => line.map(escapeCsv).join(",")).join("\r\n") + "\r\n"
+}
@@ -0,0 +1,123 @@
+import { createHash } from "crypto"
+import type { MonopolyEvent } from "@/lib/scraper/types"
+import { alarmsFor, type AlarmRule } from "./alarms"
+
+export interface CalendarOptions {
+  name: string
+  // DTSTAMP for every event; the scrape time, so an unchanged schedule produces an identical feed
+  generatedAt: string
+  // How often subscribed calendar apps should re-fetch the feed
+  refreshMinutes?: number
+  // Reminders added to every event a rule applies to
+  alarms?: AlarmRule[]
+}
+
+const UID_DOMAIN = "mgscraper"
+const PRODID = "-//mgscraper//Monopoly Go Events//EN"
+
+export function eventHash(event: Pick<MonopolyEvent, "name" | "startTime">): string {
+  return createHash("sha1").update(`${event.name.trim().toLowerCase()}|${event.startTime}`).digest("hex")
+}
+
+// Same event occurrence, same UID across scrapes, so calendar apps update it in place instead of duplicating it
+export function eventUid(event: Pick<MonopolyEvent, "name" | "startTime">): string {
+  return `${eventHash(event)}@${UID_DOMAIN}`
+}
+
+// 2025-05-29T01:00:00.000Z -> 20250529T010000Z
+export function formatIcsDate(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+export function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+}
+
+// RFC 5545 lines are at most 75 octets; longer ones continue on lines starting with a space
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= 75) return line
+
+  const parts: string[] = []
+  let current = ""
+  let currentBytes = 0
+  for (const char of line) {
+    const bytes = encoder.encode(char).length
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74
+    if (currentBytes + bytes > limit) {
+      parts.push(current)
+      current = ""
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += bytes
+  }
+  parts.push(current)
+  return parts.join("\r\n ")
+}
+
+export const imageType = (url: string) => {
+  const extension = url.split("?")[0].split(".").pop()?.toLowerCase()
+  if (extension === "jpg" || extension === "jpeg") return "image/jpeg"
+  if (extension === "webp") return "image/webp"
+  if (extension === "gif") return "image/gif"
+  return "image/png"
+}
+
+const describeLead = (minutes: number) =>
+  minutes === 0 ? "is starting now" : `starts in ${minutes} minute${minutes === 1 ? "" : "s"}`
+
+export function buildAlarmLines(event: Pick<MonopolyEvent, "name" | "type">, rules: AlarmRule[]): string[] {
+  return alarmsFor(event, rules).flatMap((minutes) => [
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    `DESCRIPTION:${escapeText(`${event.name} ${describeLead(minutes)}`)}`,
+    `TRIGGER:${minutes === 0 ? "PT0M" : `-PT${minutes}M`}`,
+    "END:VALARM",
+  ])
+}
+
+export function buildEventLines(event: MonopolyEvent, generatedAt: string, alarms: AlarmRule[] = []): string[] {
+  const description = [`Duration: ${event.duration}`, event.type && `Type: ${event.type}`].filter(Boolean).join("\n")
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${eventUid(event)}`,
+    `DTSTAMP:${formatIcsDate(generatedAt)}`,
+    `DTSTART:${formatIcsDate(event.startTime)}`,
+    `DTEND:${formatIcsDate(event.endTime)}`,
+    `SUMMARY:${escapeText(event.name)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    ...(event.type ? [`CATEGORIES:${escapeText(event.type)}`] : []),
+    ...(event.imageUrl
+      ? [
+          `ATTACH;FMTTYPE=${imageType(event.imageUrl)}:${event.imageUrl}`,
+          `IMAGE;VALUE=URI;DISPLAY=BADGE:${event.imageUrl}`,
+        ]
+      : []),
+    "TRANSP:TRANSPARENT",
+    ...buildAlarmLines(event, alarms),
+    "END:VEVENT",
+  ]
+}
+
+export function buildCalendar(events: MonopolyEvent[], options: CalendarOptions): string {
+  const refresh = `PT${options.refreshMinutes ?? 60}M`
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `NAME:${escapeText(options.name)}`,
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${refresh}`,
+    `X-PUBLISHED-TTL:${refresh}`,
+    ...events.flatMap((event) => buildEventLines(event, options.generatedAt, options.alarms)),
+    "END:VCALENDAR",
+  ]
+
+  return lines.map(foldLine).join("\r\n") + "\r\n"
+}
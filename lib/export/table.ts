@@ -0,0 +1,93 @@
+import { BadRequestError } from "@/lib/errors"
+import { formatInTimeZone, isValidTimeZone } from "@/lib/scraper/timezone"
+import type { DatedEvent } from "@/lib/snapshots/diff"
+
+export type ExportColumn = "date" | "name" | "type" | "start" | "end" | "durationMinutes" | "imageUrl"
+
+export const EXPORT_COLUMNS: ExportColumn[] = ["date", "name", "type", "start", "end", "durationMinutes", "imageUrl"]
+
+export const COLUMN_LABELS: Record<ExportColumn, string> = {
+  date: "Date",
+  name: "Name",
+  type: "Type",
+  start: "Start",
+  end: "End",
+  durationMinutes: "Duration (minutes)",
+  imageUrl: "Image URL",
+}
+
+// Date-times are wall-clock "YYYY-MM-DD HH:mm:ss" strings in the export's zone, so each format can type them itself
+export type TableCell =
+  | { kind: "text"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "date"; value: string }
+  | { kind: "datetime"; value: string }
+  | { kind: "empty" }
+
+export interface EventTable {
+  header: string[]
+  columns: ExportColumn[]
+  rows: TableCell[][]
+}
+
+export interface TableOptions {
+  columns?: ExportColumn[]
+  timeZone?: string
+}
+
+// "name,start,type" in the order given; empty for all columns
+export function parseColumns(value: string | null): ExportColumn[] {
+  if (!value?.trim()) return EXPORT_COLUMNS
+
+  const columns = value.split(",").map((column) => column.trim())
+  const unknown = columns.filter((column) => !EXPORT_COLUMNS.includes(column as ExportColumn))
+  if (unknown.length > 0) {
+    throw new BadRequestError(`Unknown columns: ${unknown.join(", ")}. Available: ${EXPORT_COLUMNS.join(", ")}`)
+  }
+  return [...new Set(columns)] as ExportColumn[]
+}
+
+export function parseExportTimeZone(value: string | null): string {
+  if (!value) return "UTC"
+  if (!isValidTimeZone(value)) throw new BadRequestError(`Unknown timezone: ${value}`)
+  return value
+}
+
+// One row per event, in start order
+export function buildEventTable(events: DatedEvent[], options: TableOptions = {}): EventTable {
+  const columns = options.columns?.length ? options.columns : EXPORT_COLUMNS
+  const timeZone = options.timeZone || "UTC"
+
+  const text = (value: string | undefined): TableCell => (value ? { kind: "text", value } : { kind: "empty" })
+
+  const rows = [...events]
+    .sort((a, b) => a.startTime.localeCompare(b.startTime))
+    .map((event) =>
+      columns.map((column): TableCell => {
+        switch (column) {
+          case "date":
+            return { kind: "date", value: event.date }
+          case "name":
+            return text(event.name)
+          case "type":
+            return text(event.type)
+          case "start":
+            return { kind: "datetime", value: formatInTimeZone(event.startTime, timeZone) }
+          case "end":
+            return { kind: "datetime", value: formatInTimeZone(event.endTime, timeZone) }
+          case "durationMinutes": {
+            const minutes = event.durationInfo?.minutes
+            return minutes === null || minutes === undefined ? { kind: "empty" } : { kind: "number", value: minutes }
+          }
+          case "imageUrl":
+            return text(event.imageUrl)
+        }
+      }),
+    )
+
+  const header = columns.map((column) =>
+    column === "start" || column === "end" ? `${COLUMN_LABELS[column]} (${timeZone})` : COLUMN_LABELS[column],
+  )
+
+  return { header, columns, rows }
+}
@@ -0,0 +1,121 @@
+import { strToU8, zipSync } from "fflate"
+import type { EventTable, TableCell } from "./table"
+import { escapeXml } from "./xml"
+
+export const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+
+// Cell style indexes into cellXfs below
+const DATE_STYLE = 1
+const DATETIME_STYLE = 2
+const HEADER_STYLE = 3
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="4">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+</cellXfs>
+</styleSheet>`
+
+const workbook = (sheetName: string) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`
+
+// A, B, ... Z, AA, AB, ...
+export function columnName(index: number): string {
+  let name = ""
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+// Spreadsheet serial date: days since 1899-12-30, read as wall-clock time with no zone
+export function toSerialDate(wallClock: string): number {
+  const ms = Date.parse(`${wallClock.replace(" ", "T")}${wallClock.length > 10 ? "" : "T00:00:00"}Z`)
+  return ms / 86400000 + 25569
+}
+
+function cellXml(cell: TableCell, ref: string): string {
+  switch (cell.kind) {
+    case "empty":
+      return ""
+    case "number":
+      return `<c r="${ref}"><v>${cell.value}</v></c>`
+    case "date":
+      return `<c r="${ref}" s="${DATE_STYLE}"><v>${toSerialDate(cell.value)}</v></c>`
+    case "datetime":
+      return `<c r="${ref}" s="${DATETIME_STYLE}"><v>${toSerialDate(cell.value)}</v></c>`
+    case "text":
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell.value)}</t></is></c>`
+  }
+}
+
+function sheetXml(table: EventTable): string {
+  const header = table.header
+    .map(
+      (label, index) =>
+        `<c r="${columnName(index)}1" t="inlineStr" s="${HEADER_STYLE}"><is><t>${escapeXml(label)}</t></is></c>`,
+    )
+    .join("")
+
+  const rows = table.rows.map((row, rowIndex) => {
+    const cells = row.map((cell, index) => cellXml(cell, `${columnName(index)}${rowIndex + 2}`))
+    return `<row r="${rowIndex + 2}">${cells.join("")}</row>`
+  })
+
+  // Freeze the header row and give date-time columns room to show their value instead of ####
+  const widths = table.columns
+    .map((column, index) => {
+      const width = column === "start" || column === "end" ? 18 : column === "name" || column === "imageUrl" ? 30 : 14
+      return `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`
+    })
+    .join("")
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${widths}</cols>
+<sheetData><row r="1">${header}</row>${rows.join("")}</sheetData>
+</worksheet>`
+}
+
+// Minimal single-sheet workbook; dates and times are real spreadsheet dates, not text
+export function toXlsx(table: EventTable, sheetName = "Events"): Uint8Array {
+  return zipSync({
+    "[Content_Types].xml": strToU8(CONTENT_TYPES),
+    "_rels/.rels": strToU8(ROOT_RELS),
+    "xl/workbook.xml": strToU8(workbook(sheetName)),
+    "xl/_rels/workbook.xml.rels": strToU8(WORKBOOK_RELS),
+    "xl/styles.xml": strToU8(STYLES),
+    "xl/worksheets/sheet1.xml": strToU8(sheetXml(table)),
+  })
+}
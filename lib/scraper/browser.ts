@@ -0,0 +1,160 @@
+import { REQUEST_HEADERS, SCHEDULE_URL, USER_AGENT } from "./site"
+
+export async function launchBrowser(): Promise<any> {
+  // Dynamic import of puppeteer (since it might not be available in all environments)
+  let puppeteer: any
+  try {
+    puppeteer = await import("puppeteer")
+  } catch (error) {
+    throw new Error("Puppeteer not available in this environment")
+  }
+
+  // Launch browser with stealth settings
+  return puppeteer.default.launch({
+    headless: true,
+    args: [
+      "--no-sandbox",
+      "--disable-setuid-sandbox",
+      "--disable-dev-shm-usage",
+      "--disable-accelerated-2d-canvas",
+      "--no-first-run",
+      "--no-zygote",
+      "--disable-gpu",
+      "--disable-web-security",
+      "--disable-features=VizDisplayCompositor",
+    ],
+  })
+}
+
+export async function newSchedulePage(browser: any): Promise<any> {
+  const page = await browser.newPage()
+
+  // Set realistic viewport and user agent
+  await page.setViewport({ width: 1366, height: 768 })
+  await page.setUserAgent(USER_AGENT)
+
+  // Set extra headers
+  await page.setExtraHTTPHeaders(REQUEST_HEADERS)
+
+  return page
+}
+
+export async function gotoSchedule(page: any): Promise<void> {
+  await page.goto(SCHEDULE_URL, {
+    waitUntil: "networkidle2",
+    timeout: 30000,
+  })
+}
+
+export interface StableContentOptions {
+  // Scope for the counts; the whole document is used while it isn't rendered yet
+  containerSelector: string
+  // Counts must hold still this long to count as settled
+  quietMs?: number
+  intervalMs?: number
+  // Give up waiting after this long and carry on with whatever has rendered
+  timeoutMs?: number
+  // Called with the markup of each date section (a child of the container) once it has held still for quietMs,
+  // and again if it changes after that
+  onSectionSettled?: (html: string) => void | Promise<void>
+}
+
+export interface StableContentResult {
+  settleMs: number
+  stable: boolean
+  sections: number
+  images: number
+}
+
+interface ContentSnapshot {
+  sections: number
+  images: number
+  // Image count and text length of each child of the container, empty until the container renders
+  sectionSignatures: string[]
+}
+
+// Poll the number of date sections and event images until the list stops changing
+export async function waitForStableContent(page: any, options: StableContentOptions): Promise<StableContentResult> {
+  const { containerSelector, quietMs = 1000, intervalMs = 250, timeoutMs = 10000, onSectionSettled } = options
+  const startTime = Date.now()
+  let last = ""
+  let unchangedSince = startTime
+  // Per section: its last signature, since when it has held, and the signature last handed to onSectionSettled
+  const sectionStates: { signature: string; since: number; reported?: string }[] = []
+
+  while (true) {
+    const { sectionSignatures, ...counts }: ContentSnapshot = await page.evaluate((selector: string) => {
+      const box = document.querySelector(selector)
+      const container = box || document.body
+      return {
+        sections: container?.querySelectorAll("li").length || 0,
+        images: container?.querySelectorAll("img").length || 0,
+        sectionSignatures: Array.from(box?.children || []).map(
+          (section) => `${section.querySelectorAll("img").length}:${section.textContent?.length || 0}`,
+        ),
+      }
+    }, containerSelector)
+
+    const now = Date.now()
+    const signature = `${counts.sections}:${counts.images}`
+    if (signature !== last) {
+      last = signature
+      unchangedSince = now
+    }
+
+    if (onSectionSettled) {
+      sectionSignatures.forEach((sectionSignature, index) => {
+        if (sectionStates[index]?.signature !== sectionSignature) {
+          sectionStates[index] = { signature: sectionSignature, since: now }
+        }
+      })
+      const settled = sectionStates.flatMap((section, index) =>
+        index < sectionSignatures.length && section.reported !== section.signature && now - section.since >= quietMs
+          ? [index]
+          : [],
+      )
+      if (settled.length > 0) {
+        const markup: string[] = await page.evaluate(
+          (selector: string, indexes: number[]) =>
+            indexes.map((index) => document.querySelector(selector)?.children[index]?.outerHTML || ""),
+          containerSelector,
+          settled,
+        )
+        for (const [position, index] of settled.entries()) {
+          sectionStates[index].reported = sectionStates[index].signature
+          if (markup[position]) await onSectionSettled(markup[position])
+        }
+      }
+    }
+
+    const stable = counts.sections > 0 && now - unchangedSince >= quietMs
+    if (stable || now - startTime >= timeoutMs) {
+      return { settleMs: now - startTime, stable, ...counts }
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, intervalMs))
+  }
+}
+
+export async function closeBrowser(browser: any): Promise<void> {
+  if (!browser || browser.connected === false) return
+  try {
+    await browser.close()
+  } catch (e) {
+    console.error("Error closing browser:", e)
+  }
+}
+
+// Launch a browser for a run, making sure it is closed if the run is cancelled at any point
+export async function launchBrowserFor(signal: AbortSignal): Promise<any> {
+  const browser = await launchBrowser()
+
+  if (signal.aborted) {
+    await closeBrowser(browser)
+    signal.throwIfAborted()
+  }
+
+  // Closing the browser also rejects whatever goto or wait is still pending on it
+  signal.addEventListener("abort", () => closeBrowser(browser), { once: true })
+  return browser
+}
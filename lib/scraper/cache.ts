@@ -0,0 +1,66 @@
+import { getSnapshotStore, type ScheduleSnapshot } from "@/lib/snapshots"
+import type { ScrapeStrategy } from "./chain"
+import { EVENT_TYPE_RULES, findUnclassifiedEvents } from "./event-types"
+import type { FinalMessage } from "./protocol"
+import { startOrJoinRun } from "./coordinator"
+
+// Served as-is while younger than this
+export const CACHE_TTL_SECONDS = Number(process.env.SCRAPE_CACHE_TTL_SECONDS ?? 300)
+// Past the TTL, still served for this long while a background scrape refreshes it
+export const CACHE_STALE_SECONDS = Number(process.env.SCRAPE_CACHE_STALE_SECONDS ?? 3600)
+
+export type CacheState = "fresh" | "stale" | "expired"
+
+export interface CachedScrape {
+  snapshot: ScheduleSnapshot
+  ageSeconds: number
+  state: CacheState
+}
+
+// The newest stored snapshot doubles as the response cache
+export async function readScrapeCache(now = Date.now()): Promise<CachedScrape | null> {
+  if (CACHE_TTL_SECONDS <= 0) return null
+
+  let snapshot: ScheduleSnapshot | null
+  try {
+    snapshot = await getSnapshotStore().latest()
+  } catch (error) {
+    console.error("Error reading scrape cache:", error)
+    return null
+  }
+  if (!snapshot) return null
+
+  const ageSeconds = Math.max(0, Math.round((now - Date.parse(snapshot.createdAt)) / 1000))
+  const state: CacheState =
+    ageSeconds < CACHE_TTL_SECONDS ? "fresh" : ageSeconds < CACHE_TTL_SECONDS + CACHE_STALE_SECONDS ? "stale" : "expired"
+
+  return { snapshot, ageSeconds, state }
+}
+
+export function cachedFinalMessage(cached: CachedScrape, refreshing: boolean): Omit<FinalMessage, "type"> {
+  const { snapshot } = cached
+  return {
+    success: true,
+    events: snapshot.events,
+    successfulMethod: snapshot.method,
+    live: true,
+    snapshotId: snapshot.id,
+    unclassifiedEvents: findUnclassifiedEvents(snapshot.events),
+    classifierVersion: EVENT_TYPE_RULES.version,
+    cached: {
+      createdAt: snapshot.createdAt,
+      ageSeconds: cached.ageSeconds,
+      stale: cached.state !== "fresh",
+      refreshing,
+    },
+  }
+}
+
+// Start a scrape that only updates the store, or ride along with the one already running
+export function refreshInBackground(strategies: ScrapeStrategy[]): void {
+  const { run } = startOrJoinRun(strategies)
+  run.retain()
+  run.finished.then((message) => {
+    if (!message.success) console.error("Background scrape refresh failed:", message.error)
+  })
+}
@@ -0,0 +1,186 @@
+import { NO_RETRY, withRetry, type RetryPolicy } from "./retry"
+import type { EventsByDate, MonopolyEvent, ScrapingMethod } from "./types"
+
+export interface StrategyOutcome {
+  events: EventsByDate
+  // False for offline sources such as cached snapshots and fixtures
+  live: boolean
+  result?: Record<string, unknown>
+}
+
+export interface StrategyContext {
+  step<T>(name: string, run: (step: ScrapingMethod) => Promise<T>, retry?: RetryPolicy): Promise<T>
+  // Aborted when the run is cancelled; strategies should release browsers and sockets when it fires
+  signal: AbortSignal
+  // Report one date's events as soon as they are parsed, ahead of the strategy's final result
+  partial(date: string, events: MonopolyEvent[]): void
+}
+
+export interface ScrapeStrategy {
+  id: string
+  name: string
+  steps: string[]
+  run(context: StrategyContext): Promise<StrategyOutcome>
+}
+
+export interface ChainResult {
+  success: boolean
+  events?: EventsByDate
+  successfulMethod?: string
+  live?: boolean
+  methods: ScrapingMethod[]
+  cancelled?: boolean
+  error?: string
+}
+
+export interface ChainOptions {
+  onProgress?: (progress: number, methods: ScrapingMethod[]) => void
+  onPartial?: (method: string, date: string, events: MonopolyEvent[]) => void
+  signal?: AbortSignal
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : "Unknown error")
+
+// Rejects as soon as the signal fires, so a step stuck in a browser call doesn't hold up cancellation
+function whenAborted(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    if (signal.aborted) reject(signal.reason)
+    else signal.addEventListener("abort", () => reject(signal.reason), { once: true })
+  })
+}
+
+// Try each strategy in order until one produces events, reporting every attempt as its own method
+export async function runStrategyChain(strategies: ScrapeStrategy[], options: ChainOptions = {}): Promise<ChainResult> {
+  const signal = options.signal ?? new AbortController().signal
+  const aborted = whenAborted(signal)
+  // Nobody may be racing against it yet when the signal fires
+  aborted.catch(() => {})
+
+  const methods: ScrapingMethod[] = strategies.map((strategy) => ({
+    name: strategy.name,
+    status: "pending",
+    steps: strategy.steps.map((name) => ({ name, status: "pending" })),
+  }))
+
+  let progress = 0
+  const report = (value: number) => {
+    progress = Math.max(progress, Math.min(99, Math.round(value)))
+    options.onProgress?.(progress, structuredClone(methods))
+  }
+
+  const failures: string[] = []
+
+  for (const [index, strategy] of strategies.entries()) {
+    const method = methods[index]
+    const steps = method.steps!
+    // Each attempt fills whatever share of the bar the previous attempts left over
+    const base = progress
+    let completedSteps = 0
+
+    const context: StrategyContext = {
+      async step(name, run, retry = NO_RETRY) {
+        let step = steps.find((s) => s.name === name && s.status === "pending")
+        if (!step) {
+          step = { name, status: "pending" }
+          steps.push(step)
+        }
+
+        signal.throwIfAborted()
+        step.status = "running"
+        report(progress)
+        const startTime = Date.now()
+
+        try {
+          const value = await Promise.race([
+            withRetry(() => run(step), retry, {
+              signal,
+              onRetry: (attempt, error) => {
+                step.attempt = attempt
+                step.maxAttempts = retry.attempts
+                const warning = `${name} attempt ${attempt - 1} failed: ${errorMessage(error)}`
+                step.warnings = [...(step.warnings || []), warning]
+                report(progress)
+              },
+            }),
+            aborted,
+          ])
+          step.status = "success"
+          step.duration = Date.now() - startTime
+          completedSteps++
+          report(base + ((100 - base) * completedSteps) / Math.max(steps.length, 1))
+          return value
+        } catch (error) {
+          step.status = signal.aborted ? "cancelled" : "failed"
+          step.duration = Date.now() - startTime
+          step.error = errorMessage(signal.aborted ? signal.reason : error)
+          throw error
+        }
+      },
+      signal,
+      partial(date, events) {
+        if (!signal.aborted) options.onPartial?.(strategy.name, date, structuredClone(events))
+      },
+    }
+
+    method.status = "running"
+    report(progress)
+    const startTime = Date.now()
+
+    try {
+      const outcome = await Promise.race([strategy.run(context), aborted])
+      method.status = "success"
+      method.duration = Date.now() - startTime
+      const warnings = steps.flatMap((step) => step.warnings || [])
+      if (warnings.length > 0) method.warnings = warnings
+      method.result = {
+        ...outcome.result,
+        totalEvents: Object.values(outcome.events).flat().length,
+        totalDates: Object.keys(outcome.events).length,
+      }
+
+      progress = 100
+      options.onProgress?.(progress, structuredClone(methods))
+
+      return {
+        success: true,
+        events: outcome.events,
+        successfulMethod: strategy.name,
+        live: outcome.live,
+        methods,
+      }
+    } catch (error) {
+      method.duration = Date.now() - startTime
+
+      // A cancelled run stops here instead of falling through to the next strategy
+      if (signal.aborted) {
+        method.status = "cancelled"
+        method.error = errorMessage(signal.reason)
+        // The step's own catch only runs after this report, which would leave it spinning for every follower
+        steps.forEach((step) => {
+          if (step.status !== "running") return
+          step.status = "cancelled"
+          step.error = method.error
+        })
+        options.onProgress?.(progress, structuredClone(methods))
+        return { success: false, cancelled: true, methods, error: method.error }
+      }
+
+      method.status = "failed"
+      method.error = errorMessage(error)
+      failures.push(`${strategy.name}: ${method.error}`)
+      report(progress)
+    }
+  }
+
+  progress = 100
+  options.onProgress?.(progress, structuredClone(methods))
+
+  return {
+    success: false,
+    methods,
+    error:
+      failures.length > 0
+        ? `All extraction strategies failed. ${failures.join("; ")}`
+        : "No extraction strategies configured",
+  }
+}
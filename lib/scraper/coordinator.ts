@@ -0,0 +1,187 @@
+import { randomUUID } from "crypto"
+import type { ScrapeStrategy } from "./chain"
+import type { FinalMessage, PartialMessage, ProgressMessage, StreamMessage } from "./protocol"
+import { executeScrape } from "./run"
+
+export type RunListener = (message: StreamMessage) => void
+
+export interface ReleaseResult {
+  // The run was aborted because nobody else was following it
+  cancelled: boolean
+  // The caller's own subscription was dropped
+  detached: boolean
+}
+
+// A client whose connection dropped has this long to reconnect before the run is cancelled
+const RECONNECT_GRACE_MS = 10000
+// Finished runs stay resumable this long so a client that dropped near the end still gets the result
+const FINISHED_RETENTION_MS = 60000
+
+// One in-flight scrape that any number of clients can follow
+export class ScrapeRun {
+  readonly id = randomUUID()
+  readonly startedAt = new Date().toISOString()
+  readonly finished: Promise<FinalMessage>
+
+  private listeners = new Set<RunListener>()
+  // Listener of each client that identified itself, so it can stop following without ending the run for others
+  private clients = new Map<string, RunListener>()
+  private lastProgress: ProgressMessage | null = null
+  // Latest partial per date from the strategy currently producing them
+  private partials = new Map<string, PartialMessage>()
+  private finalMessage: FinalMessage | null = null
+  private controller = new AbortController()
+  private idleTimer: ReturnType<typeof setTimeout> | null = null
+  // Background refreshes have no clients but must still run to completion
+  private keepAlive = false
+
+  constructor(
+    readonly key: string,
+    strategies: ScrapeStrategy[],
+  ) {
+    this.finished = executeScrape(strategies, {
+      onProgress: (progress, methods) => this.emit({ type: "progress", runId: this.id, progress, methods }),
+      onPartial: (method, date, events) => this.emit({ type: "partial", runId: this.id, method, date, events }),
+      signal: this.controller.signal,
+    })
+      .catch((error) => ({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      }))
+      .then((result) => {
+        const message: FinalMessage = { type: "final", runId: this.id, ...result }
+        this.emit(message)
+        return message
+      })
+  }
+
+  private emit(message: StreamMessage) {
+    if (message.type === "progress") {
+      this.lastProgress = message
+    } else if (message.type === "partial") {
+      if ([...this.partials.values()].some((partial) => partial.method !== message.method)) this.partials.clear()
+      this.partials.set(message.date, message)
+    } else {
+      this.finalMessage = message
+    }
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(message)
+      } catch (error) {
+        console.error("Error delivering scrape update:", error)
+      }
+    })
+  }
+
+  // Late joiners first get the current method states, partial results (and the result, if already finished),
+  // then live updates
+  subscribe(listener: RunListener, clientId?: string): () => void {
+    if (this.lastProgress) listener(this.lastProgress)
+    if (!this.finalMessage) this.partials.forEach((partial) => listener(partial))
+    if (this.finalMessage) {
+      listener(this.finalMessage)
+      return () => {}
+    }
+
+    this.clearIdleTimer()
+    this.listeners.add(listener)
+    if (clientId) this.clients.set(clientId, listener)
+    return () => this.unsubscribe(listener)
+  }
+
+  private unsubscribe(listener: RunListener) {
+    if (!this.listeners.delete(listener)) return
+    // Nobody is waiting for the result any more, so stop the browser instead of finishing for nothing
+    if (!this.inUse && !this.finalMessage) {
+      this.idleTimer = setTimeout(() => this.cancel("All clients disconnected"), RECONNECT_GRACE_MS)
+    }
+  }
+
+  // A client asked to stop: drop its subscription, and abort only if nobody else follows or retains the run
+  release(clientId?: string, reason?: string): ReleaseResult {
+    const listener = clientId ? this.clients.get(clientId) : undefined
+    if (listener) {
+      this.clients.delete(clientId!)
+      this.unsubscribe(listener)
+    }
+
+    const detached = listener !== undefined
+    if (this.finalMessage || this.inUse) return { cancelled: false, detached }
+
+    this.cancel(reason)
+    return { cancelled: true, detached }
+  }
+
+  private get inUse() {
+    return this.listeners.size > 0 || this.keepAlive
+  }
+
+  private clearIdleTimer() {
+    if (this.idleTimer) clearTimeout(this.idleTimer)
+    this.idleTimer = null
+  }
+
+  cancel(reason = "Cancelled by client") {
+    this.clearIdleTimer()
+    if (this.finalMessage || this.controller.signal.aborted) return
+    this.controller.abort(new Error(`Scrape cancelled: ${reason}`))
+  }
+
+  retain() {
+    this.keepAlive = true
+  }
+
+  get done() {
+    return this.finalMessage !== null
+  }
+
+  get subscriberCount() {
+    return this.listeners.size
+  }
+}
+
+// Kept on globalThis so every request in this process sees the same in-flight runs
+const holder = globalThis as typeof globalThis & {
+  __scrapeRuns?: Map<string, ScrapeRun>
+  __scrapeRunsById?: Map<string, ScrapeRun>
+}
+// In-flight runs by strategy chain, and recent runs (finished or not) by id for resuming
+const runs = (holder.__scrapeRuns ??= new Map())
+const runsById = (holder.__scrapeRunsById ??= new Map())
+
+const runKey = (strategies: ScrapeStrategy[]) => strategies.map((strategy) => strategy.id).join(",")
+
+// Attach to the scrape already running this strategy chain, or start one
+export function startOrJoinRun(strategies: ScrapeStrategy[]): { run: ScrapeRun; joined: boolean } {
+  const key = runKey(strategies)
+
+  const existing = runs.get(key)
+  if (existing) return { run: existing, joined: true }
+
+  const run = new ScrapeRun(key, strategies)
+  runs.set(key, run)
+  runsById.set(run.id, run)
+  run.finished.finally(() => {
+    runs.delete(key)
+    setTimeout(() => runsById.delete(run.id), FINISHED_RETENTION_MS)
+  })
+
+  return { run, joined: false }
+}
+
+export function findRun(id: string): ScrapeRun | null {
+  return runsById.get(id) ?? null
+}
+
+// Stop following the in-flight run for this strategy chain, or the one with this id, cancelling it if nobody else
+// is; returns null if nothing was running
+export function releaseRun(
+  target: ScrapeStrategy[] | string,
+  clientId?: string,
+  reason?: string,
+): ReleaseResult | null {
+  const run = typeof target === "string" ? findRun(target) : runs.get(runKey(target))
+  if (!run || run.done) return null
+  return run.release(clientId, reason)
+}
@@ -0,0 +1,62 @@
+export type DurationKind = "fixed" | "whole-window" | "unknown"
+
+export interface EventDuration {
+  kind: DurationKind
+  // Active time in minutes; null when the page doesn't say
+  minutes: number | null
+  // Length of the startTime/endTime window in minutes
+  windowMinutes: number
+  mismatch: boolean
+  mismatchReason?: string
+}
+
+const WHOLE_WINDOW_PATTERN = /\b(whole|entire|full|all)\b/i
+
+const UNIT_MINUTES: [RegExp, number][] = [
+  [/(\d+(?:\.\d+)?)\s*(?:days?|d)\b/i, 24 * 60],
+  [/(\d+(?:\.\d+)?)\s*(?:hours?|hrs?|h)\b/i, 60],
+  [/(\d+(?:\.\d+)?)\s*(?:minutes?|mins?|m)\b/i, 1],
+]
+
+function parseMinutes(text: string): number | null {
+  let total = 0
+  let matched = false
+
+  for (const [pattern, factor] of UNIT_MINUTES) {
+    const match = text.match(pattern)
+    if (match) {
+      total += Number(match[1]) * factor
+      matched = true
+    }
+  }
+
+  return matched ? Math.round(total) : null
+}
+
+// Turn the page's duration text ("5 Minutes", "Whole Time", ...) into minutes and check it fits the event window
+export function parseDuration(text: string, startTime: string, endTime: string): EventDuration {
+  const windowMinutes = Math.round((Date.parse(endTime) - Date.parse(startTime)) / 60000)
+
+  let kind: DurationKind = "unknown"
+  let minutes: number | null = null
+
+  if (WHOLE_WINDOW_PATTERN.test(text)) {
+    kind = "whole-window"
+    minutes = Math.max(windowMinutes, 0)
+  } else {
+    minutes = parseMinutes(text)
+    if (minutes !== null) kind = "fixed"
+  }
+
+  const duration: EventDuration = { kind, minutes, windowMinutes, mismatch: false }
+
+  if (!(windowMinutes > 0)) {
+    duration.mismatch = true
+    duration.mismatchReason = "End time is not after start time"
+  } else if (kind === "fixed" && minutes! > windowMinutes) {
+    duration.mismatch = true
+    duration.mismatchReason = `${text} is longer than the ${windowMinutes}-minute event window`
+  }
+
+  return duration
+}
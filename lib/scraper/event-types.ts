@@ -0,0 +1,66 @@
+import rules from "./event-type-rules.json"
+import type { EventsByDate } from "./types"
+
+export interface EventTypeRule {
+  type: string
+  // Canonical event names, matched case- and punctuation-insensitively
+  names: string[]
+  // Alternative spellings seen on the site
+  aliases?: string[]
+  // Fragments of the icon URL, e.g. "highroller" for ".../icon/highroller.png"
+  icons?: string[]
+}
+
+export interface EventTypeRuleTable {
+  version: number
+  defaultType: string
+  rules: EventTypeRule[]
+}
+
+export interface EventClassification {
+  type: string
+  matchedBy: "name" | "alias" | "icon" | "default"
+}
+
+export const EVENT_TYPE_RULES: EventTypeRuleTable = rules
+
+const normalize = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+
+const iconFile = (imageUrl: string) => normalize(imageUrl.split("?")[0].split("/").pop() || "").replace(/ /g, "")
+
+export function classifyEvent(
+  name: string,
+  imageUrl = "",
+  table: EventTypeRuleTable = EVENT_TYPE_RULES,
+): EventClassification {
+  const normalizedName = normalize(name)
+
+  const byName = table.rules.find((rule) => rule.names.some((candidate) => normalize(candidate) === normalizedName))
+  if (byName) return { type: byName.type, matchedBy: "name" }
+
+  const byAlias = table.rules.find((rule) => rule.aliases?.some((alias) => normalize(alias) === normalizedName))
+  if (byAlias) return { type: byAlias.type, matchedBy: "alias" }
+
+  const icon = iconFile(imageUrl)
+  if (icon) {
+    const byIcon = table.rules.find((rule) => rule.icons?.some((fragment) => icon.includes(normalize(fragment))))
+    if (byIcon) return { type: byIcon.type, matchedBy: "icon" }
+  }
+
+  return { type: table.defaultType, matchedBy: "default" }
+}
+
+// Names that no rule matched, so the table can be extended
+export function findUnclassifiedEvents(eventsByDate: EventsByDate, table: EventTypeRuleTable = EVENT_TYPE_RULES) {
+  const names = new Set<string>()
+  Object.values(eventsByDate)
+    .flat()
+    .forEach((event) => {
+      if (classifyEvent(event.name, event.imageUrl, table).matchedBy === "default") names.add(event.name)
+    })
+  return Array.from(names).sort()
+}
@@ -0,0 +1,40 @@
+import assert from "node:assert/strict"
+import { writeFileSync } from "node:fs"
+import path from "node:path"
+import { test } from "node:test"
+import {
+  FIXTURES_DIR,
+  SCHEDULE_FIXTURES,
+  expectationFile,
+  loadExpectation,
+  loadFixture,
+  type FixtureExpectation,
+} from "./fixtures"
+import { parseStaticSchedule } from "./static-html"
+
+// UPDATE_FIXTURES=1 npm test rewrites the expected output after an intended parser change
+const UPDATE = process.env.UPDATE_FIXTURES === "1"
+
+function parseFixture(file: string): FixtureExpectation {
+  try {
+    const { events, source, locator, eventsFound, warnings } = parseStaticSchedule(loadFixture(file))
+    return { events, source, locator, eventsFound, warnings }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+for (const fixture of SCHEDULE_FIXTURES) {
+  test(`${fixture.file}: ${fixture.description}`, () => {
+    // Round-trip through JSON so undefined fields compare the same way they are stored
+    const actual = JSON.parse(JSON.stringify(parseFixture(fixture.file)))
+
+    if (UPDATE) {
+      writeFileSync(path.join(FIXTURES_DIR, expectationFile(fixture.file)), `${JSON.stringify(actual, null, 2)}\n`)
+      return
+    }
+
+    assert.deepEqual(actual, loadExpectation(fixture.file))
+    if (!fixture.broken) assert.ok(!("error" in actual), `${fixture.file} should parse`)
+  })
+}
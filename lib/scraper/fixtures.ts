@@ -0,0 +1,63 @@
+import { readFileSync } from "fs"
+import path from "path"
+import type { StaticScheduleResult } from "./static-html"
+
+export interface ScheduleFixture {
+  file: string
+  description: string
+  // Broken fixtures capture markup the parser has to survive or reject cleanly
+  broken: boolean
+}
+
+// What parsing a fixture should give: the schedule and how it was found, or the error it fails with
+export type FixtureExpectation =
+  | Pick<StaticScheduleResult, "events" | "source" | "locator" | "eventsFound" | "warnings">
+  | { error: string }
+
+export const FIXTURES_DIR = path.join(process.cwd(), "lib", "scraper", "fixtures")
+
+export const SCHEDULE_FIXTURES: ScheduleFixture[] = [
+  {
+    file: "schedule-2025-05-29.html",
+    description: "Schedule page as served on 2025-05-29, two date sections",
+    broken: false,
+  },
+  {
+    file: "schedule-next-data.html",
+    description: "Client-rendered shell with the schedule only in the __NEXT_DATA__ payload",
+    broken: false,
+  },
+  {
+    file: "broken-missing-event-box.html",
+    description: "Page rendered before the event list was hydrated",
+    broken: true,
+  },
+  {
+    file: "broken-rehashed-class.html",
+    description: "Event list after a redeploy changed the CSS module hash",
+    broken: true,
+  },
+  {
+    file: "broken-malformed-times.html",
+    description: "Events with missing seconds, placeholder times and an empty duration",
+    broken: true,
+  },
+  {
+    file: "broken-missing-date-headers.html",
+    description: "Date sections without an \"Events for\" header",
+    broken: true,
+  },
+]
+
+export function loadFixture(file: string): string {
+  return readFileSync(path.join(FIXTURES_DIR, file), "utf8")
+}
+
+// schedule-2025-05-29.html is checked against schedule-2025-05-29.expected.json
+export function expectationFile(file: string): string {
+  return file.replace(/\.html$/, ".expected.json")
+}
+
+export function loadExpectation(file: string): FixtureExpectation {
+  return JSON.parse(readFileSync(path.join(FIXTURES_DIR, expectationFile(file)), "utf8"))
+}
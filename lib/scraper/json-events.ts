@@ -0,0 +1,118 @@
+import type { RawEvent } from "./types"
+
+const NAME_KEYS = ["name", "title", "eventName", "event_name"]
+const START_KEYS = ["startTime", "start_time", "startDate", "start_date", "startsAt", "starts_at", "start"]
+const END_KEYS = ["endTime", "end_time", "endDate", "end_date", "endsAt", "ends_at", "end"]
+const DURATION_KEYS = ["duration", "durationText", "duration_text"]
+const IMAGE_KEYS = ["imageUrl", "image_url", "iconUrl", "icon_url", "image", "icon", "img"]
+
+const TIMESTAMP_PATTERN =
+  /^(\d{4})[-/](\d{2})[-/](\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(Z|[+-]\d{2}:?\d{2})?$/
+
+const MAX_DEPTH = 12
+
+function pick(record: Record<string, unknown>, keys: string[]): unknown {
+  for (const key of keys) {
+    if (record[key] !== undefined && record[key] !== null && record[key] !== "") return record[key]
+  }
+  return undefined
+}
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+const formatUtc = (date: Date) =>
+  `${date.getUTCFullYear()}/${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())} ` +
+  `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`
+
+interface ScheduleTime {
+  // "YYYY/MM/DD HH:mm:ss", the form the schedule markup uses
+  text: string
+  // True when the value carried its own offset and has been converted to UTC
+  utc: boolean
+}
+
+function toScheduleTime(value: unknown): ScheduleTime | null {
+  if (typeof value === "number") {
+    const date = new Date(value < 1e12 ? value * 1000 : value)
+    if (isNaN(date.getTime())) return null
+    return { text: formatUtc(date), utc: true }
+  }
+
+  if (typeof value === "string") {
+    const match = value.match(TIMESTAMP_PATTERN)
+    if (!match) return null
+
+    const [, year, month, day, hours, minutes, seconds = "00", zone] = match
+    if (zone) {
+      const date = new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}${zone}`)
+      if (isNaN(date.getTime())) return null
+      return { text: formatUtc(date), utc: true }
+    }
+    return { text: `${year}/${month}/${day} ${hours}:${minutes}:${seconds}`, utc: false }
+  }
+
+  return null
+}
+
+function toRawEvent(record: Record<string, unknown>): RawEvent | null {
+  const name = pick(record, NAME_KEYS)
+  const start = toScheduleTime(pick(record, START_KEYS))
+  const end = toScheduleTime(pick(record, END_KEYS))
+  if (typeof name !== "string" || !start || !end) return null
+
+  const duration = pick(record, DURATION_KEYS)
+  const image = pick(record, IMAGE_KEYS)
+
+  return {
+    date: start.text.slice(0, 10).replace(/\//g, "-"),
+    name: name.replace("Monopoly Go Event Name: ", "").trim(),
+    timeText: `${start.text} - ${end.text}`,
+    durationText:
+      typeof duration === "number" ? `Duration: ${duration} Minutes` : duration ? `Duration: ${duration}` : "",
+    imageUrl: typeof image === "string" ? image : "",
+    timeZone: start.utc ? "UTC" : undefined,
+  }
+}
+
+// Walk an arbitrary JSON payload and collect every object that looks like a scheduled event
+export function extractRawEventsFromJson(data: unknown): RawEvent[] {
+  const events: RawEvent[] = []
+  const seen = new Set<string>()
+
+  const visit = (value: unknown, depth: number) => {
+    if (depth > MAX_DEPTH || value === null || typeof value !== "object") return
+
+    if (Array.isArray(value)) {
+      value.forEach((item) => visit(item, depth + 1))
+      return
+    }
+
+    const event = toRawEvent(value as Record<string, unknown>)
+    if (event) {
+      const key = `${event.name}|${event.timeText}`
+      if (!seen.has(key)) {
+        seen.add(key)
+        events.push(event)
+      }
+      return
+    }
+
+    Object.values(value).forEach((child) => visit(child, depth + 1))
+  }
+
+  visit(data, 0)
+  return events
+}
+
+export function readNextData(root: ParentNode): unknown {
+  const script = root.querySelector("script#__NEXT_DATA__")
+  const text = script?.textContent?.trim()
+  if (!text) return null
+
+  try {
+    return JSON.parse(text)
+  } catch (error) {
+    console.error("Error parsing __NEXT_DATA__:", error)
+    return null
+  }
+}
@@ -0,0 +1,25 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { SCHEDULE_FIXTURES, loadExpectation, loadFixture } from "./fixtures"
+import { parseEventsHtml, parseHtmlDocument } from "./parser"
+
+// parseEventsHtml reads the markup only, so it must agree with the fixture expectations that came from the markup and
+// reject the rest instead of falling back to __NEXT_DATA__
+for (const fixture of SCHEDULE_FIXTURES) {
+  test(`parseEventsHtml: ${fixture.file}`, () => {
+    const expected = loadExpectation(fixture.file)
+    const html = loadFixture(fixture.file)
+
+    if ("error" in expected || expected.source !== "markup") {
+      assert.throws(() => parseEventsHtml(html), /Event box not found/)
+      return
+    }
+
+    assert.deepEqual(JSON.parse(JSON.stringify(parseEventsHtml(html))), expected.events)
+  })
+}
+
+test("parseEventsHtml accepts an already parsed document", () => {
+  const html = loadFixture("schedule-2025-05-29.html")
+  assert.deepEqual(parseEventsHtml(parseHtmlDocument(html)), parseEventsHtml(html))
+})
@@ -0,0 +1,261 @@
+import { parseHTML } from "linkedom"
+import { parseDuration } from "./duration"
+import { classifyEvent } from "./event-types"
+import { SITE_ORIGIN } from "./site"
+import { DEFAULT_SOURCE_TIMEZONE, resolveSourceTimeZone, zonedTimeToUtc } from "./timezone"
+import type { EventsByDate, MonopolyEvent, RawEvent } from "./types"
+
+// Bump whenever parsing changes what ends up in MonopolyEvent, so stored snapshots can be told apart
+export const PARSER_VERSION = 1
+
+export const EVENT_BOX_SELECTOR = "ul.events_eventBox__nV6sM"
+// Survives the CSS module hash changing on redeploy
+export const EVENT_BOX_PREFIX_SELECTOR = '[class^="events_eventBox"], [class*=" events_eventBox"]'
+
+const TIME_RANGE_PATTERN = /(\d{4}\/\d{2}\/\d{2} \d{2}:\d{2}:\d{2}) - (\d{4}\/\d{2}\/\d{2} \d{2}:\d{2}:\d{2})/
+
+export function parseHtmlDocument(html: string): Document {
+  return parseHTML(html).document as unknown as Document
+}
+
+export type LocatorId = "exact-class" | "class-prefix" | "date-headers" | "text-anchors"
+
+export interface ExtractionResult {
+  events: RawEvent[]
+  // Locator that found the schedule; anything but the first one means the markup has drifted
+  locator: LocatorId
+  warnings: string[]
+}
+
+interface EventBoxLocator {
+  id: Exclude<LocatorId, "text-anchors">
+  locate(root: ParentNode): Element | null
+}
+
+const DATE_HEADER_PATTERN = /^Events for (.+)/
+
+// Leaf elements whose text is an "Events for <date>" header
+function findDateHeaders(root: ParentNode): Element[] {
+  return Array.from(root.querySelectorAll("span, h1, h2, h3, h4, h5, h6, p, div, strong")).filter(
+    (element) => element.children.length === 0 && DATE_HEADER_PATTERN.test(element.textContent?.trim() || ""),
+  )
+}
+
+export const EVENT_BOX_LOCATORS: EventBoxLocator[] = [
+  { id: "exact-class", locate: (root) => root.querySelector(EVENT_BOX_SELECTOR) },
+  { id: "class-prefix", locate: (root) => root.querySelector(EVENT_BOX_PREFIX_SELECTOR) },
+  {
+    id: "date-headers",
+    locate: (root) => {
+      const [header] = findDateHeaders(root)
+      const section = header?.closest("li") || header?.parentElement
+      return section?.parentElement || null
+    },
+  },
+]
+
+// Time and duration text for the event an icon belongs to
+function readEventDetails(img: Element): { timeText: string; durationText: string } | null {
+  // Find the event container
+  const eventContainer = img.closest("div")?.parentElement
+  if (!eventContainer) return null
+
+  let timeText = ""
+  let durationText = ""
+
+  // Search all divs in the container for time and duration
+  const allDivs = eventContainer.querySelectorAll("div")
+  allDivs.forEach((div) => {
+    const text = div.textContent?.trim() || ""
+
+    // Look for time pattern
+    if (TIME_RANGE_PATTERN.test(text)) {
+      timeText = text
+    }
+
+    // Look for duration
+    if (text.includes("Duration:")) {
+      durationText = text
+    }
+  })
+
+  return { timeText, durationText }
+}
+
+function readEventName(img: Element): string {
+  const eventName = img.getAttribute("title") || img.getAttribute("alt") || ""
+  return eventName.replace("Monopoly Go Event Name: ", "").trim()
+}
+
+// Events of one date section, the "Events for <date>" header and the icons under it
+export function extractSectionEvents(section: Element): RawEvent[] {
+  const events: RawEvent[] = []
+
+  // Get date header
+  const dateHeader = findDateHeaders(section)[0]
+  if (!dateHeader) return events
+
+  const dateMatch = dateHeader.textContent!.trim().match(DATE_HEADER_PATTERN)
+  if (!dateMatch) return events
+
+  const dateStr = dateMatch[1]
+
+  // Find all images (events) in this date section
+  const images = section.querySelectorAll("img")
+
+  images.forEach((img) => {
+    const name = readEventName(img)
+    if (!name) return
+
+    const details = readEventDetails(img)
+    if (!details) return
+
+    events.push({
+      date: dateStr,
+      name,
+      ...details,
+      imageUrl: img.getAttribute("src") || "",
+    })
+  })
+
+  return events
+}
+
+function extractFromEventBox(eventBox: Element): RawEvent[] {
+  // Each child of the box is a date section; in today's markup these are <li> elements
+  return Array.from(eventBox.children).flatMap(extractSectionEvents)
+}
+
+// Last resort: any icon sitting next to a time range is an event, dated by its own start time
+function extractFromTextAnchors(root: ParentNode): RawEvent[] {
+  const events: RawEvent[] = []
+
+  root.querySelectorAll("img").forEach((img) => {
+    const name = readEventName(img)
+    if (!name) return
+
+    const details = readEventDetails(img)
+    const timeMatch = details?.timeText.match(TIME_RANGE_PATTERN)
+    if (!details || !timeMatch) return
+
+    events.push({
+      date: timeMatch[1].slice(0, 10).replace(/\//g, "-"),
+      name,
+      ...details,
+      imageUrl: img.getAttribute("src") || "",
+    })
+  })
+
+  return events
+}
+
+// Find the schedule with each locator in turn and collect the text of every event, without interpreting it
+export function extractScheduleEvents(root: ParentNode): ExtractionResult {
+  const warnings: string[] = []
+
+  for (const locator of EVENT_BOX_LOCATORS) {
+    const eventBox = locator.locate(root)
+    if (!eventBox) continue
+
+    const events = extractFromEventBox(eventBox)
+    if (events.length === 0) continue
+
+    if (locator.id !== EVENT_BOX_LOCATORS[0].id) {
+      warnings.push(`Primary selector ${EVENT_BOX_SELECTOR} no longer matches; events located by ${locator.id}`)
+    }
+    return { events, locator: locator.id, warnings }
+  }
+
+  const events = extractFromTextAnchors(root)
+  if (events.length > 0) {
+    warnings.push(`No dated event sections found; ${events.length} events located by text anchors`)
+    return { events, locator: "text-anchors", warnings }
+  }
+
+  throw new Error("Event box not found")
+}
+
+export function extractRawEvents(root: ParentNode): RawEvent[] {
+  const { events, warnings } = extractScheduleEvents(root)
+  warnings.forEach((warning) => console.warn(warning))
+  return events
+}
+
+// Turn a date header such as "May 29, 2025" into "2025-05-29" without shifting it through the local timezone
+export function toDateKey(dateText: string): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(dateText)) return dateText
+
+  const parsed = Date.parse(`${dateText} 00:00:00 UTC`)
+  if (isNaN(parsed)) throw new Error(`Unrecognised date: ${dateText}`)
+  return new Date(parsed).toISOString().split("T")[0]
+}
+
+export function parseRawEvents(rawEvents: RawEvent[], timeZone: string = DEFAULT_SOURCE_TIMEZONE): EventsByDate {
+  const eventsByDate: EventsByDate = {}
+
+  rawEvents.forEach((event) => {
+    try {
+      const formattedDate = toDateKey(event.date)
+
+      if (!eventsByDate[formattedDate]) {
+        eventsByDate[formattedDate] = []
+      }
+
+      // Parse time range
+      const timeMatch = event.timeText.match(TIME_RANGE_PATTERN)
+
+      if (!timeMatch) return
+
+      // The page prints wall-clock times in the source zone; store them as UTC instants
+      const eventTimeZone = event.timeZone || timeZone
+      const start = zonedTimeToUtc(timeMatch[1].replace(/\//g, "-").replace(" ", "T"), eventTimeZone)
+      const end = zonedTimeToUtc(timeMatch[2].replace(/\//g, "-").replace(" ", "T"), eventTimeZone)
+
+      // Parse duration
+      const durationMatch = event.durationText.match(/Duration:\s*(.+)/)
+      const duration = durationMatch ? durationMatch[1].trim() : "Unknown"
+
+      const imageUrl = event.imageUrl.startsWith("http") ? event.imageUrl : `${SITE_ORIGIN}${event.imageUrl}`
+
+      const monopolyEvent: MonopolyEvent = {
+        name: event.name,
+        startTime: start.utc,
+        endTime: end.utc,
+        utcOffset: start.offset,
+        sourceTimeZone: eventTimeZone,
+        duration,
+        durationInfo: parseDuration(duration, start.utc, end.utc),
+        type: classifyEvent(event.name, imageUrl).type,
+        imageUrl,
+      }
+
+      eventsByDate[formattedDate].push(monopolyEvent)
+    } catch (error) {
+      console.error("Error parsing event:", event, error)
+    }
+  })
+
+  return eventsByDate
+}
+
+// Sort events by date and time
+export function sortEventsByDate(eventsByDate: EventsByDate): EventsByDate {
+  const sortedEventsByDate: EventsByDate = {}
+  Object.keys(eventsByDate)
+    .sort()
+    .forEach((date) => {
+      sortedEventsByDate[date] = [...eventsByDate[date]].sort((a, b) => a.startTime.localeCompare(b.startTime))
+    })
+  return sortedEventsByDate
+}
+
+// One date section's markup, as taken from the live page while the rest of the list is still loading
+export function parseSectionHtml(html: string, timeZone: string): EventsByDate {
+  const section = parseHtmlDocument(`<html><body>${html}</body></html>`).body.firstElementChild
+  return section ? sortEventsByDate(parseRawEvents(extractSectionEvents(section), timeZone)) : {}
+}
+
+export function parseEventsHtml(source: string | ParentNode): EventsByDate {
+  const root = typeof source === "string" ? parseHtmlDocument(source) : source
+  return sortEventsByDate(parseRawEvents(extractRawEvents(root), resolveSourceTimeZone(root)))
+}
@@ -0,0 +1,67 @@
+import type { EventsByDate, MonopolyEvent, ScrapingMethod } from "./types"
+
+// Messages streamed by /api/scrape-events, one JSON object per line (or one named event each over SSE)
+
+// Every message about a run carries its id, which a dropped client can pass back as ?runId= to resume
+export interface ProgressMessage {
+  type: "progress"
+  runId?: string
+  progress: number
+  methods: ScrapingMethod[]
+}
+
+export interface FinalMessage {
+  type: "final"
+  // Absent for answers that didn't involve a run, such as cache hits
+  runId?: string
+  success: boolean
+  events?: EventsByDate
+  successfulMethod?: string
+  // False when the data came from an offline source such as a cached snapshot or fixtures
+  live?: boolean
+  // Id of the stored snapshot, for live results
+  snapshotId?: string
+  // Event names no classification rule matched, and the rule table version they were checked against
+  unclassifiedEvents?: string[]
+  classifierVersion?: number
+  // Present when the result was served from the scrape cache instead of a fresh run
+  cached?: {
+    createdAt: string
+    ageSeconds: number
+    stale: boolean
+    // A background scrape was started to replace a stale result
+    refreshing: boolean
+  }
+  // The run was stopped by a client rather than failing
+  cancelled?: boolean
+  error?: string
+}
+
+// Emitted over SSE for every step whose status changed since the previous progress update
+export interface StepMessage {
+  type: "step"
+  runId?: string
+  method: string
+  step: ScrapingMethod
+}
+
+// Keeps idle connections open while a step is quiet
+export interface HeartbeatMessage {
+  type: "heartbeat"
+  runId?: string
+  time: string
+}
+
+// One date's events, sent as soon as its section settles on the page; later partials for the same date replace it
+export interface PartialMessage {
+  type: "partial"
+  runId?: string
+  // Strategy that produced it; partials from an earlier strategy that then failed are superseded
+  method: string
+  date: string
+  events: MonopolyEvent[]
+}
+
+export type StreamMessage = ProgressMessage | PartialMessage | FinalMessage
+
+export type TransportMessage = StreamMessage | StepMessage | HeartbeatMessage
@@ -0,0 +1,138 @@
+import assert from "node:assert/strict"
+import { describe, test } from "node:test"
+import { attemptsFromEnv, backoffDelay, isTransientError, NO_RETRY, withRetry, type RetryPolicy } from "./retry"
+
+const policy = (overrides: Partial<RetryPolicy> = {}): RetryPolicy => ({
+  attempts: 3,
+  backoffMs: 1,
+  backoffFactor: 2,
+  maxBackoffMs: 10,
+  retryable: isTransientError,
+  ...overrides,
+})
+
+// Fails with `error` for the first `failures` calls, then resolves with the attempt number
+function flaky(failures: number, error: Error = new Error("net::ERR_CONNECTION_RESET")) {
+  const calls: number[] = []
+  const run = async (attempt: number) => {
+    calls.push(attempt)
+    if (calls.length <= failures) throw error
+    return attempt
+  }
+  return { run, calls }
+}
+
+describe("backoffDelay", () => {
+  test("waits backoffMs before the first retry and grows by backoffFactor", () => {
+    const slow = policy({ backoffMs: 1000, backoffFactor: 2, maxBackoffMs: 10000 })
+    assert.deepEqual([2, 3, 4, 5].map((attempt) => backoffDelay(slow, attempt)), [1000, 2000, 4000, 8000])
+  })
+
+  test("never waits longer than maxBackoffMs", () => {
+    assert.equal(backoffDelay(policy({ backoffMs: 1000, maxBackoffMs: 3000 }), 10), 3000)
+  })
+})
+
+describe("withRetry", () => {
+  test("retries transient failures until one succeeds", async () => {
+    const { run, calls } = flaky(2)
+    const retries: number[] = []
+    const result = await withRetry(run, policy(), { onRetry: (attempt) => retries.push(attempt) })
+    assert.equal(result, 3)
+    assert.deepEqual(calls, [1, 2, 3])
+    assert.deepEqual(retries, [2, 3])
+  })
+
+  test("gives up after the last attempt with the last error", async () => {
+    const { run, calls } = flaky(5, new Error("Navigation timeout of 30000 ms exceeded"))
+    await assert.rejects(withRetry(run, policy({ attempts: 3 })), /Navigation timeout/)
+    assert.equal(calls.length, 3)
+  })
+
+  test("does not retry errors that would fail the same way again", async () => {
+    const { run, calls } = flaky(1, new Error("Event box not found"))
+    await assert.rejects(withRetry(run, policy()), /Event box not found/)
+    assert.equal(calls.length, 1)
+  })
+
+  test("tries once under NO_RETRY", async () => {
+    const { run, calls } = flaky(1)
+    await assert.rejects(withRetry(run, NO_RETRY))
+    assert.equal(calls.length, 1)
+  })
+
+  test("stops retrying once the signal is aborted", async () => {
+    const controller = new AbortController()
+    const { run, calls } = flaky(5)
+    const failing = withRetry(
+      async (attempt) => {
+        controller.abort(new Error("Scrape cancelled"))
+        return run(attempt)
+      },
+      policy(),
+      { signal: controller.signal },
+    )
+    await assert.rejects(failing, /ERR_CONNECTION_RESET/)
+    assert.equal(calls.length, 1)
+  })
+
+  test("rejects with the abort reason when cancelled during the backoff", async () => {
+    const controller = new AbortController()
+    const { run, calls } = flaky(5)
+    const failing = withRetry(run, policy({ backoffMs: 60000, maxBackoffMs: 60000 }), {
+      signal: controller.signal,
+      onRetry: () => setTimeout(() => controller.abort(new Error("Scrape cancelled")), 5),
+    })
+    await assert.rejects(failing, /Scrape cancelled/)
+    assert.equal(calls.length, 1)
+  })
+})
+
+describe("isTransientError", () => {
+  test("retries timeouts, dropped connections, crashed pages and server errors", () => {
+    const timeout = new Error("The operation was aborted due to timeout")
+    timeout.name = "TimeoutError"
+    for (const error of [
+      timeout,
+      new Error("Navigation timeout of 30000 ms exceeded"),
+      new Error("net::ERR_NAME_NOT_RESOLVED at https://example.com"),
+      new Error("Protocol error: Target closed"),
+      new Error("HTTP 503: Service Unavailable"),
+      new Error("HTTP 429: Too Many Requests"),
+      new TypeError("fetch failed", { cause: new Error("connect ECONNREFUSED 127.0.0.1:443") }),
+    ]) {
+      assert.ok(isTransientError(error), error.message)
+    }
+  })
+
+  test("does not retry parse failures, client errors or non-errors", () => {
+    for (const error of [
+      new Error("Event box not found"),
+      new Error("HTTP 404: Not Found"),
+      new Error("HTTP 400: Bad Request"),
+      "timeout",
+      null,
+    ]) {
+      assert.ok(!isTransientError(error), String(error))
+    }
+  })
+})
+
+describe("attemptsFromEnv", () => {
+  test("reads whole numbers", () => {
+    assert.equal(attemptsFromEnv("5", 3), 5)
+    assert.equal(attemptsFromEnv(" 2 ", 3), 2)
+  })
+
+  test("falls back for missing or non-numeric values", () => {
+    assert.equal(attemptsFromEnv(undefined, 3), 3)
+    assert.equal(attemptsFromEnv("", 3), 3)
+    assert.equal(attemptsFromEnv("three", 3), 3)
+    assert.equal(attemptsFromEnv("2.5", 3), 3)
+  })
+
+  test("always allows at least one try", () => {
+    assert.equal(attemptsFromEnv("0", 3), 1)
+    assert.equal(attemptsFromEnv("-2", 3), 1)
+  })
+})
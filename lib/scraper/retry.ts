@@ -0,0 +1,89 @@
+export interface RetryPolicy {
+  // Total tries including the first one
+  attempts: number
+  // Delay before the first retry, multiplied by backoffFactor for each one after
+  backoffMs: number
+  backoffFactor: number
+  maxBackoffMs: number
+  retryable: (error: unknown) => boolean
+}
+
+export interface RetryOptions {
+  signal?: AbortSignal
+  // Called before each retry with the attempt about to start and the error that ended the previous one
+  onRetry?: (attempt: number, error: unknown, delayMs: number) => void
+}
+
+// Timeouts, dropped connections, crashed pages and server errors; anything else will fail the same way again
+const TRANSIENT_ERROR_PATTERN =
+  /timeout|timed out|net::ERR_|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|fetch failed|Target closed|Session closed|crashed|detached|HTTP 5\d\d|HTTP 429/i
+
+export function isTransientError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false
+  if (error.name === "TimeoutError") return true
+  return TRANSIENT_ERROR_PATTERN.test(`${error.message} ${error.cause instanceof Error ? error.cause.message : ""}`)
+}
+
+export const NO_RETRY: RetryPolicy = {
+  attempts: 1,
+  backoffMs: 0,
+  backoffFactor: 1,
+  maxBackoffMs: 0,
+  retryable: () => false,
+}
+
+// An attempt count from the environment. Anything but a whole number falls back to the default, since NaN would never
+// stop retrying; 0 or less still means a single try
+export function attemptsFromEnv(value: string | undefined, fallback: number): number {
+  const attempts = Number(value)
+  if (!value?.trim() || !Number.isInteger(attempts)) return fallback
+  return Math.max(1, attempts)
+}
+
+// Used by steps that talk to the network or the browser
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: attemptsFromEnv(process.env.SCRAPE_RETRY_ATTEMPTS, 3),
+  backoffMs: 1000,
+  backoffFactor: 2,
+  maxBackoffMs: 10000,
+  retryable: isTransientError,
+}
+
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  // attempt is the one about to start, so the first retry (attempt 2) waits backoffMs
+  return Math.min(policy.maxBackoffMs, policy.backoffMs * policy.backoffFactor ** Math.max(0, attempt - 2))
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+export async function withRetry<T>(
+  run: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  options: RetryOptions = {},
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run(attempt)
+    } catch (error) {
+      // A cancelled run is never retried
+      if (options.signal?.aborted || attempt >= policy.attempts || !policy.retryable(error)) throw error
+
+      const delay = backoffDelay(policy, attempt + 1)
+      options.onRetry?.(attempt + 1, error, delay)
+      await sleep(delay, options.signal)
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { collectTimings, getSnapshotStore } from "@/lib/snapshots"
+import { getWebhookRegistry, notifyScheduleChange } from "@/lib/webhooks"
+import { runStrategyChain, type ChainOptions, type ScrapeStrategy } from "./chain"
+import { EVENT_TYPE_RULES, findUnclassifiedEvents } from "./event-types"
+import { PARSER_VERSION } from "./parser"
+import type { FinalMessage } from "./protocol"
+
+// Run the strategy chain, store a live result as a snapshot and build the stream's final message
+export async function executeScrape(
+  strategies: ScrapeStrategy[],
+  options: ChainOptions = {},
+): Promise<Omit<FinalMessage, "type">> {
+  const result = await runStrategyChain(strategies, options)
+
+  if (!result.success || !result.events) {
+    return { success: false, cancelled: result.cancelled, error: result.error }
+  }
+
+  // Persist live results only; offline fallbacks would just duplicate what's already stored
+  let snapshotId: string | undefined
+  if (result.live) {
+    try {
+      const snapshot = await getSnapshotStore().save({
+        method: result.successfulMethod!,
+        parserVersion: PARSER_VERSION,
+        timings: collectTimings(result.methods),
+        events: result.events,
+      })
+      snapshotId = snapshot.id
+
+      // Deliveries can spend minutes retrying, so they don't hold up the response
+      notifyScheduleChange(getWebhookRegistry(), snapshot).catch((error) =>
+        console.error("Error delivering webhooks:", error),
+      )
+    } catch (error) {
+      console.error("Error saving snapshot:", error)
+    }
+  }
+
+  const unclassifiedEvents = findUnclassifiedEvents(result.events)
+  if (unclassifiedEvents.length > 0) {
+    console.warn(`Events with no type rule (rules v${EVENT_TYPE_RULES.version}):`, unclassifiedEvents)
+  }
+
+  return {
+    success: true,
+    events: result.events,
+    successfulMethod: result.successfulMethod,
+    live: result.live,
+    snapshotId,
+    unclassifiedEvents,
+    classifierVersion: EVENT_TYPE_RULES.version,
+  }
+}
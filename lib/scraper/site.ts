@@ -0,0 +1,10 @@
+export const SITE_ORIGIN = "https://monopolygo.game"
+export const SCHEDULE_URL = `${SITE_ORIGIN}/monopoly-go-events-today-schedule`
+
+export const USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36"
+
+export const REQUEST_HEADERS = {
+  "Accept-Language": "en-US,en;q=0.9",
+  DNT: "1",
+}
@@ -0,0 +1,86 @@
+import { extractRawEventsFromJson, readNextData } from "./json-events"
+import {
+  extractScheduleEvents,
+  parseHtmlDocument,
+  parseRawEvents,
+  sortEventsByDate,
+  type ExtractionResult,
+} from "./parser"
+import { REQUEST_HEADERS, SCHEDULE_URL, USER_AGENT } from "./site"
+import { resolveSourceTimeZone } from "./timezone"
+import type { EventsByDate } from "./types"
+
+export interface StaticScheduleResult {
+  events: EventsByDate
+  source: "markup" | "__NEXT_DATA__"
+  eventsFound: number
+  timeZone: string
+  // Which markup locator found the list, when it came from the markup
+  locator?: ExtractionResult["locator"]
+  warnings: string[]
+}
+
+export async function fetchScheduleHtml(
+  url: string = SCHEDULE_URL,
+  timeout = 15000,
+  signal?: AbortSignal,
+): Promise<string> {
+  const response = await fetch(url, {
+    headers: {
+      ...REQUEST_HEADERS,
+      "User-Agent": USER_AGENT,
+      Accept: "text/html,application/xhtml+xml",
+    },
+    cache: "no-store",
+    signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(timeout)]) : AbortSignal.timeout(timeout),
+  })
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return response.text()
+}
+
+// Prefer the server-rendered list, then fall back to the page's embedded Next.js payload
+export function parseStaticSchedule(html: string): StaticScheduleResult {
+  const document = parseHtmlDocument(html)
+  const timeZone = resolveSourceTimeZone(document)
+
+  let extraction: ExtractionResult | null = null
+  try {
+    extraction = extractScheduleEvents(document)
+  } catch {
+    // The list is often rendered client-side only, in which case the markup has no event box
+  }
+
+  if (extraction && extraction.events.length > 0) {
+    return {
+      events: sortEventsByDate(parseRawEvents(extraction.events, timeZone)),
+      source: "markup",
+      eventsFound: extraction.events.length,
+      timeZone,
+      locator: extraction.locator,
+      warnings: extraction.warnings,
+    }
+  }
+
+  const nextData = readNextData(document)
+  const rawEvents = nextData ? extractRawEventsFromJson(nextData) : []
+
+  if (rawEvents.length > 0) {
+    return {
+      events: sortEventsByDate(parseRawEvents(rawEvents, timeZone)),
+      source: "__NEXT_DATA__",
+      eventsFound: rawEvents.length,
+      timeZone,
+      warnings: [],
+    }
+  }
+
+  throw new Error("No events found in the static HTML markup or __NEXT_DATA__ payload")
+}
+
+export async function scrapeStaticSchedule(url: string = SCHEDULE_URL): Promise<StaticScheduleResult> {
+  return parseStaticSchedule(await fetchScheduleHtml(url))
+}
@@ -0,0 +1,118 @@
+import { closeBrowser, gotoSchedule, launchBrowserFor, newSchedulePage, waitForStableContent } from "../browser"
+import type { ScrapeStrategy } from "../chain"
+import {
+  EVENT_BOX_PREFIX_SELECTOR,
+  extractScheduleEvents,
+  parseHtmlDocument,
+  parseRawEvents,
+  parseSectionHtml,
+  sortEventsByDate,
+} from "../parser"
+import { DEFAULT_RETRY_POLICY } from "../retry"
+import { resolveSourceTimeZone } from "../timezone"
+
+export const browserDomStrategy: ScrapeStrategy = {
+  id: "browser-dom",
+  name: "Puppeteer Browser Automation",
+  steps: [
+    "Launch Browser",
+    "Wait for Dynamic Content",
+    "Extract Events from DOM",
+    "Parse Event Details",
+    "Format JSON Output",
+  ],
+
+  async run({ step, signal, partial }) {
+    let browser: any = null
+
+    try {
+      browser = await step(
+        "Launch Browser",
+        async (s) => {
+          const launched = await launchBrowserFor(signal)
+          s.result = { browserLaunched: true }
+          return launched
+        },
+        DEFAULT_RETRY_POLICY,
+      )
+
+      const page = await step(
+        "Wait for Dynamic Content",
+        async (s) => {
+          const page = await newSchedulePage(browser)
+          try {
+            await gotoSchedule(page)
+
+            // Wait for the event list, or at least its "Events for" headers or time ranges, to appear
+            await page.waitForFunction(
+              (prefixSelector: string) =>
+                !!document.querySelector(prefixSelector) ||
+                /Events for |\d{4}\/\d{2}\/\d{2} \d{2}:\d{2}:\d{2} - /.test(document.body?.innerText || ""),
+              { timeout: 15000 },
+              EVENT_BOX_PREFIX_SELECTOR,
+            )
+
+            // Read from the page once, when the first section is ready
+            let sectionTimeZone: string | null = null
+
+            // Images and later date sections keep streaming in after the first one shows up; hand each section on
+            // as soon as it stops changing so a slow or failing run still leaves those dates behind
+            const settled = await waitForStableContent(page, {
+              containerSelector: EVENT_BOX_PREFIX_SELECTOR,
+              onSectionSettled: async (html) => {
+                try {
+                  sectionTimeZone ??= resolveSourceTimeZone(parseHtmlDocument(await page.content()))
+                  Object.entries(parseSectionHtml(html, sectionTimeZone)).forEach(([date, events]) => {
+                    if (events.length > 0) partial(date, events)
+                  })
+                } catch (error) {
+                  console.warn("Could not parse a settled event section:", error)
+                }
+              },
+            })
+            s.result = { pageLoaded: true, ...settled }
+            if (!settled.stable) {
+              s.warnings = [...(s.warnings || []), `Event list still changing after ${settled.settleMs}ms`]
+            }
+            return page
+          } catch (error) {
+            // A retry starts over on a fresh page
+            await page.close().catch(() => {})
+            throw error
+          }
+        },
+        DEFAULT_RETRY_POLICY,
+      )
+
+      const { rawEvents, timeZone } = await step("Extract Events from DOM", async (s) => {
+        // Pull the rendered markup out of the browser and parse it server-side
+        const document = parseHtmlDocument(await page.content())
+        const { events: rawEvents, locator, warnings } = extractScheduleEvents(document)
+        const timeZone = resolveSourceTimeZone(document)
+        s.result = { eventsFound: rawEvents.length, locator, timeZone }
+        if (warnings.length > 0) s.warnings = warnings
+        return { rawEvents, timeZone }
+      })
+
+      const eventsByDate = await step("Parse Event Details", async (s) => {
+        const eventsByDate = parseRawEvents(rawEvents, timeZone)
+        const allEvents = Object.values(eventsByDate).flat()
+        s.result = {
+          totalEvents: allEvents.length,
+          totalDates: Object.keys(eventsByDate).length,
+          durationMismatches: allEvents.filter((event) => event.durationInfo.mismatch).length,
+        }
+        return eventsByDate
+      })
+
+      const events = await step("Format JSON Output", async (s) => {
+        s.result = { formatted: true }
+        return sortEventsByDate(eventsByDate)
+      })
+
+      return { events, live: true, result: { timeZone } }
+    } finally {
+      await closeBrowser(browser)
+    }
+  },
+}
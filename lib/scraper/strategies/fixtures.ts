@@ -0,0 +1,23 @@
+import type { ScrapeStrategy } from "../chain"
+import { SCHEDULE_FIXTURES, loadFixture } from "../fixtures"
+import { parseStaticSchedule } from "../static-html"
+
+export const fixturesStrategy: ScrapeStrategy = {
+  id: "fixtures",
+  name: "Saved HTML Fixtures",
+  steps: ["Load HTML Fixtures"],
+
+  async run({ step }) {
+    return step("Load HTML Fixtures", async (s) => {
+      for (const fixture of SCHEDULE_FIXTURES) {
+        if (fixture.broken) continue
+
+        const parsed = parseStaticSchedule(loadFixture(fixture.file))
+        s.result = { fixture: fixture.file, source: parsed.source, eventsFound: parsed.eventsFound }
+        return { events: parsed.events, live: false, result: { fixture: fixture.file } }
+      }
+
+      throw new Error("No usable schedule fixtures found")
+    })
+  },
+}
@@ -0,0 +1,34 @@
+import type { ScrapeStrategy } from "../chain"
+import { browserDomStrategy } from "./browser-dom"
+import { fixturesStrategy } from "./fixtures"
+import { networkJsonStrategy } from "./network-json"
+import { snapshotStrategy } from "./snapshot"
+import { staticHtmlStrategy } from "./static-html"
+
+export const STRATEGIES: ScrapeStrategy[] = [
+  browserDomStrategy,
+  networkJsonStrategy,
+  staticHtmlStrategy,
+  snapshotStrategy,
+  fixturesStrategy,
+]
+
+export const DEFAULT_STRATEGY_ORDER = STRATEGIES.map((strategy) => strategy.id)
+
+// Resolve a comma-separated list of strategy ids, e.g. "static-html,fixtures", into the chain to run
+export function resolveStrategies(order?: string | null): ScrapeStrategy[] {
+  const spec = order || process.env.SCRAPE_STRATEGIES
+  if (!spec) return STRATEGIES
+
+  const ids = spec
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+
+  const unknown = ids.filter((id) => !STRATEGIES.some((strategy) => strategy.id === id))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown scrape strategies: ${unknown.join(", ")}. Available: ${DEFAULT_STRATEGY_ORDER.join(", ")}`)
+  }
+
+  return ids.map((id) => STRATEGIES.find((strategy) => strategy.id === id)!)
+}
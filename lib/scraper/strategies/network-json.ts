@@ -0,0 +1,97 @@
+import { closeBrowser, gotoSchedule, launchBrowserFor, newSchedulePage } from "../browser"
+import type { ScrapeStrategy } from "../chain"
+import { extractRawEventsFromJson } from "../json-events"
+import { parseHtmlDocument, parseRawEvents, sortEventsByDate } from "../parser"
+import { DEFAULT_RETRY_POLICY } from "../retry"
+import { resolveSourceTimeZone } from "../timezone"
+import type { RawEvent } from "../types"
+
+// Responses bigger than this are assets or analytics, never the schedule
+const MAX_PAYLOAD_BYTES = 2 * 1024 * 1024
+
+export const networkJsonStrategy: ScrapeStrategy = {
+  id: "network-json",
+  name: "Network-Intercepted JSON",
+  steps: ["Launch Browser", "Capture Network Responses", "Parse JSON Payloads", "Format JSON Output"],
+
+  async run({ step, signal }) {
+    let browser: any = null
+
+    try {
+      browser = await step(
+        "Launch Browser",
+        async (s) => {
+          const launched = await launchBrowserFor(signal)
+          s.result = { browserLaunched: true }
+          return launched
+        },
+        DEFAULT_RETRY_POLICY,
+      )
+
+      const { payloads, timeZone } = await step(
+        "Capture Network Responses",
+        async (s) => {
+          // Each attempt listens on a fresh page so a retry doesn't mix in half-captured responses
+          const page = await newSchedulePage(browser)
+          const captured: { url: string; pending: Promise<unknown> }[] = []
+
+          try {
+            page.on("response", (response: any) => {
+              const contentType = response.headers()["content-type"] || ""
+              const contentLength = Number(response.headers()["content-length"] || 0)
+              if (!contentType.includes("json") || contentLength > MAX_PAYLOAD_BYTES) return
+
+              captured.push({
+                url: response.url(),
+                pending: response.json().catch(() => null),
+              })
+            })
+
+            await gotoSchedule(page)
+
+            const payloads = await Promise.all(
+              captured.map(async ({ url, pending }) => ({ url, data: await pending })),
+            )
+            // Payload times without an explicit offset are read in the zone the page states
+            const timeZone = resolveSourceTimeZone(parseHtmlDocument(await page.content()))
+            s.result = { responsesCaptured: payloads.length, timeZone }
+            return { payloads: payloads.filter((payload) => payload.data !== null), timeZone }
+          } catch (error) {
+            // Otherwise the failed page keeps loading next to the retry until the browser closes
+            await page.close().catch(() => {})
+            throw error
+          }
+        },
+        DEFAULT_RETRY_POLICY,
+      )
+
+      const rawEvents = await step("Parse JSON Payloads", async (s) => {
+        const rawEvents: RawEvent[] = []
+        const sources: string[] = []
+
+        payloads.forEach(({ url, data }) => {
+          const found = extractRawEventsFromJson(data)
+          if (found.length === 0) return
+          rawEvents.push(...found)
+          sources.push(url)
+        })
+
+        if (rawEvents.length === 0) {
+          throw new Error(`No event data in ${payloads.length} captured JSON responses`)
+        }
+
+        s.result = { eventsFound: rawEvents.length, sources }
+        return rawEvents
+      })
+
+      const events = await step("Format JSON Output", async (s) => {
+        s.result = { formatted: true }
+        return sortEventsByDate(parseRawEvents(rawEvents, timeZone))
+      })
+
+      return { events, live: true, result: { timeZone } }
+    } finally {
+      await closeBrowser(browser)
+    }
+  },
+}
@@ -0,0 +1,23 @@
+import { getSnapshotStore } from "@/lib/snapshots"
+import type { ScrapeStrategy } from "../chain"
+
+export const snapshotStrategy: ScrapeStrategy = {
+  id: "snapshot",
+  name: "Last Cached Snapshot",
+  steps: ["Load Last Snapshot"],
+
+  async run({ step }) {
+    const snapshot = await step("Load Last Snapshot", async (s) => {
+      const snapshot = await getSnapshotStore().latest()
+      if (!snapshot) throw new Error("No successful scrape has been stored yet")
+      s.result = { snapshotId: snapshot.id, createdAt: snapshot.createdAt, method: snapshot.method }
+      return snapshot
+    })
+
+    return {
+      events: snapshot.events,
+      live: false,
+      result: { snapshotId: snapshot.id, createdAt: snapshot.createdAt, originalMethod: snapshot.method },
+    }
+  },
+}
@@ -0,0 +1,31 @@
+import type { ScrapeStrategy } from "../chain"
+import { DEFAULT_RETRY_POLICY } from "../retry"
+import { SCHEDULE_URL } from "../site"
+import { fetchScheduleHtml, parseStaticSchedule } from "../static-html"
+
+export const staticHtmlStrategy: ScrapeStrategy = {
+  id: "static-html",
+  name: "Static HTML Fetch",
+  steps: ["Fetch Schedule Page", "Parse Markup or __NEXT_DATA__"],
+
+  async run({ step, signal }) {
+    const html = await step(
+      "Fetch Schedule Page",
+      async (s) => {
+        const html = await fetchScheduleHtml(SCHEDULE_URL, 15000, signal)
+        s.result = { bytes: html.length }
+        return html
+      },
+      DEFAULT_RETRY_POLICY,
+    )
+
+    const parsed = await step("Parse Markup or __NEXT_DATA__", async (s) => {
+      const parsed = parseStaticSchedule(html)
+      s.result = { source: parsed.source, locator: parsed.locator, eventsFound: parsed.eventsFound }
+      if (parsed.warnings.length > 0) s.warnings = parsed.warnings
+      return parsed
+    })
+
+    return { events: parsed.events, live: true, result: { source: parsed.source, timeZone: parsed.timeZone } }
+  },
+}
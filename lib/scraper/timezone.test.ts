@@ -0,0 +1,110 @@
+import assert from "node:assert/strict"
+import { describe, test } from "node:test"
+import {
+  detectSourceTimeZone,
+  formatInTimeZone,
+  formatOffset,
+  getOffsetMinutes,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from "./timezone"
+
+describe("getOffsetMinutes", () => {
+  test("reads fixed offsets", () => {
+    assert.equal(getOffsetMinutes("+08:00", 0), 480)
+    assert.equal(getOffsetMinutes("-05:30", 0), -330)
+  })
+
+  test("follows daylight saving time in IANA zones", () => {
+    assert.equal(getOffsetMinutes("Europe/Berlin", Date.parse("2025-01-15T00:00:00Z")), 60)
+    assert.equal(getOffsetMinutes("Europe/Berlin", Date.parse("2025-07-15T00:00:00Z")), 120)
+    assert.equal(getOffsetMinutes("Asia/Kolkata", Date.parse("2025-07-15T00:00:00Z")), 330)
+  })
+})
+
+describe("zonedTimeToUtc", () => {
+  test("treats UTC and fixed offsets as constant", () => {
+    assert.deepEqual(zonedTimeToUtc("2025-05-29T01:00:00", "UTC"), {
+      utc: "2025-05-29T01:00:00.000Z",
+      offset: "+00:00",
+    })
+    assert.deepEqual(zonedTimeToUtc("2025-05-29T01:00:00", "+08:00"), {
+      utc: "2025-05-28T17:00:00.000Z",
+      offset: "+08:00",
+    })
+    assert.deepEqual(zonedTimeToUtc("2025-05-29T01:00", "-05:30"), {
+      utc: "2025-05-29T06:30:00.000Z",
+      offset: "-05:30",
+    })
+  })
+
+  test("uses the offset in effect on either side of a spring-forward change", () => {
+    // New York moves from -05:00 to -04:00 at 02:00 local on 2025-03-09
+    assert.deepEqual(zonedTimeToUtc("2025-03-09T01:30:00", "America/New_York"), {
+      utc: "2025-03-09T06:30:00.000Z",
+      offset: "-05:00",
+    })
+    assert.deepEqual(zonedTimeToUtc("2025-03-09T03:30:00", "America/New_York"), {
+      utc: "2025-03-09T07:30:00.000Z",
+      offset: "-04:00",
+    })
+  })
+
+  test("moves a time that doesn't exist forward across the gap", () => {
+    assert.deepEqual(zonedTimeToUtc("2025-03-09T02:30:00", "America/New_York"), {
+      utc: "2025-03-09T07:30:00.000Z",
+      offset: "-04:00",
+    })
+    // East of UTC the clocks jump from 02:00 to 03:00 on 2025-03-30
+    assert.deepEqual(zonedTimeToUtc("2025-03-30T02:30:00", "Europe/Berlin"), {
+      utc: "2025-03-30T01:30:00.000Z",
+      offset: "+02:00",
+    })
+  })
+
+  test("picks the earlier instant of a time repeated by a fall-back change", () => {
+    assert.deepEqual(zonedTimeToUtc("2025-11-02T01:30:00", "America/New_York"), {
+      utc: "2025-11-02T05:30:00.000Z",
+      offset: "-04:00",
+    })
+    assert.deepEqual(zonedTimeToUtc("2025-10-26T02:30:00", "Europe/Berlin"), {
+      utc: "2025-10-26T00:30:00.000Z",
+      offset: "+02:00",
+    })
+    assert.deepEqual(zonedTimeToUtc("2025-11-02T02:30:00", "America/New_York"), {
+      utc: "2025-11-02T07:30:00.000Z",
+      offset: "-05:00",
+    })
+  })
+
+  test("round-trips through formatInTimeZone", () => {
+    const { utc } = zonedTimeToUtc("2025-07-01T12:00:00", "America/New_York")
+    assert.equal(formatInTimeZone(utc, "America/New_York"), "2025-07-01 12:00:00")
+  })
+
+  test("rejects malformed local times", () => {
+    assert.throws(() => zonedTimeToUtc("2025/07/01 12:00", "UTC"), /Invalid local time/)
+  })
+})
+
+describe("detectSourceTimeZone", () => {
+  test("finds IANA names, offsets and plain UTC in page text", () => {
+    assert.equal(detectSourceTimeZone("All times are in Asia/Singapore"), "Asia/Singapore")
+    assert.equal(detectSourceTimeZone("Times shown in (GMT+8)"), "+08:00")
+    assert.equal(detectSourceTimeZone("Schedule in UTC-3:30"), "-03:30")
+    assert.equal(detectSourceTimeZone("All times UTC"), "UTC")
+  })
+
+  test("ignores text without a usable zone", () => {
+    assert.equal(detectSourceTimeZone("Events for May 29, 2025"), null)
+    assert.equal(detectSourceTimeZone("Europe/Nowhere"), null)
+  })
+})
+
+test("formatOffset and isValidTimeZone", () => {
+  assert.equal(formatOffset(-330), "-05:30")
+  assert.equal(formatOffset(0), "+00:00")
+  assert.ok(isValidTimeZone("+08:00"))
+  assert.ok(isValidTimeZone("Europe/Berlin"))
+  assert.ok(!isValidTimeZone("Mars/Olympus"))
+})
@@ -0,0 +1,122 @@
+// Zone the schedule is published in when the page itself doesn't say. Either an IANA name or a fixed "+HH:MM" offset.
+export const DEFAULT_SOURCE_TIMEZONE = process.env.SCRAPE_SOURCE_TIMEZONE || "UTC"
+
+const FIXED_OFFSET_PATTERN = /^([+-])(\d{2}):(\d{2})$/
+const LOCAL_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+export function formatOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? "-" : "+"
+  const absolute = Math.abs(offsetMinutes)
+  return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (FIXED_OFFSET_PATTERN.test(timeZone)) return true
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Offset of `timeZone` from UTC, in minutes, at the given instant
+export function getOffsetMinutes(timeZone: string, instant: number): number {
+  const fixed = timeZone.match(FIXED_OFFSET_PATTERN)
+  if (fixed) {
+    const minutes = Number(fixed[2]) * 60 + Number(fixed[3])
+    return fixed[1] === "-" ? -minutes : minutes
+  }
+
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant))
+
+  const value = (type: string) => Number(parts.find((part) => part.type === type)?.value)
+  const asUtc = Date.UTC(
+    value("year"),
+    value("month") - 1,
+    value("day"),
+    value("hour"),
+    value("minute"),
+    value("second"),
+  )
+
+  return Math.round((asUtc - Math.floor(instant / 1000) * 1000) / 60000)
+}
+
+// Wall-clock time of a UTC instant in `timeZone`, as "YYYY-MM-DD HH:mm:ss"
+export function formatInTimeZone(iso: string, timeZone: string): string {
+  const instant = Date.parse(iso)
+  const wallClock = new Date(instant + getOffsetMinutes(timeZone, instant) * 60000)
+  return wallClock.toISOString().replace("T", " ").slice(0, 19)
+}
+
+export interface ZonedInstant {
+  // UTC instant in ISO 8601 form
+  utc: string
+  // Offset of the source zone at that instant, e.g. "+08:00"
+  offset: string
+}
+
+// Interpret a naive "YYYY-MM-DDTHH:mm:ss" wall-clock time in `timeZone`
+export function zonedTimeToUtc(localTime: string, timeZone: string): ZonedInstant {
+  const match = localTime.match(LOCAL_TIME_PATTERN)
+  if (!match) throw new Error(`Invalid local time: ${localTime}`)
+
+  const [, year, month, day, hours, minutes, seconds = "0"] = match
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds)
+
+  // The offsets a day either side cover both sides of any DST transition near this time. Keep the instants that really
+  // show this wall-clock time: the earlier one when it happens twice, and when it falls in a spring-forward gap, none,
+  // so it is read with the offset from before the gap, which moves it forward like the clocks did
+  const before = getOffsetMinutes(timeZone, wallClock - DAY_MS)
+  const after = getOffsetMinutes(timeZone, wallClock + DAY_MS)
+  const [instant = wallClock - before * 60000] = [before, after]
+    .filter((offset) => getOffsetMinutes(timeZone, wallClock - offset * 60000) === offset)
+    .map((offset) => wallClock - offset * 60000)
+    .sort((a, b) => a - b)
+
+  return {
+    utc: new Date(instant).toISOString(),
+    offset: formatOffset(getOffsetMinutes(timeZone, instant)),
+  }
+}
+
+// Find a timezone statement such as "All times are in UTC" or "(GMT+8)" in the page text
+export function detectSourceTimeZone(text: string): string | null {
+  const iana = text.match(/\b((?:Africa|America|Asia|Atlantic|Australia|Europe|Pacific)\/[A-Za-z_]+(?:\/[A-Za-z_]+)?)\b/)
+  if (iana && isValidTimeZone(iana[1])) return iana[1]
+
+  const offset = text.match(/\b(?:UTC|GMT)\s*([+-])\s*(\d{1,2})(?::?(\d{2}))?\b/)
+  if (offset) {
+    const minutes = Number(offset[2]) * 60 + Number(offset[3] || 0)
+    return formatOffset(offset[1] === "-" ? -minutes : minutes)
+  }
+
+  if (/\b(?:UTC|GMT)\b/.test(text)) return "UTC"
+
+  return null
+}
+
+export function resolveSourceTimeZone(root: ParentNode): string {
+  let text = (root as Document).body?.textContent || root.textContent || ""
+
+  // Only look at visible copy; embedded JSON and styles are full of unrelated "GMT"s
+  root.querySelectorAll("script, style").forEach((element) => {
+    if (element.textContent) text = text.replace(element.textContent, " ")
+  })
+
+  return detectSourceTimeZone(text) || DEFAULT_SOURCE_TIMEZONE
+}
@@ -0,0 +1,87 @@
+import type { StepMessage, TransportMessage } from "./protocol"
+import type { ScrapingMethod } from "./types"
+
+export type TransportKind = "ndjson" | "sse"
+
+export interface StreamEncoder {
+  contentType: string
+  // Sent once before any message
+  preamble: string
+  // A single message may expand to several frames, e.g. step events derived from a progress update
+  encode(message: TransportMessage): string
+}
+
+// SSE is opt-in, through ?transport=sse or an EventSource-style Accept header
+export function selectTransport(transport: string | null, accept: string | null): TransportKind {
+  if (transport === "sse") return "sse"
+  if (transport === "ndjson") return "ndjson"
+  return accept?.includes("text/event-stream") ? "sse" : "ndjson"
+}
+
+export function createNdjsonEncoder(): StreamEncoder {
+  return {
+    contentType: "text/plain; charset=utf-8",
+    preamble: "",
+    encode: (message) => (message.type === "step" ? "" : JSON.stringify(message) + "\n"),
+  }
+}
+
+const stepKey = (methodIndex: number, step: ScrapingMethod) => `${methodIndex}:${step.name}`
+
+// The final message of a stream gets this in place of a sequence number
+const FINAL_EVENT_ID = "final"
+
+export interface SseEventId {
+  // Run the event belonged to; null for answers that didn't involve a run, such as cache hits
+  runId: string | null
+  // The stream already delivered its final message, so there is nothing left to resume
+  final: boolean
+}
+
+// Read back an id written by the SSE encoder, as sent by EventSource in Last-Event-ID when it reconnects
+export function parseEventId(id: string | null): SseEventId | null {
+  if (id === null) return null
+  const separator = id.lastIndexOf(":")
+  const runId = separator > 0 ? id.slice(0, separator) : null
+  return { runId, final: id.slice(separator + 1) === FINAL_EVENT_ID }
+}
+
+export function createSseEncoder(): StreamEncoder {
+  let nextId = 0
+  const stepStates = new Map<string, string>()
+
+  // Ids are <runId>:<seq>, so a reconnecting EventSource says which run to resume
+  const frame = (message: TransportMessage) => {
+    const sequence = message.type === "final" ? FINAL_EVENT_ID : String(++nextId)
+    const id = message.runId ? `${message.runId}:${sequence}` : sequence
+    return `id: ${id}\nevent: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`
+  }
+
+  // Diff the steps against the last update so consumers can follow them without comparing method trees
+  const changedSteps = (methods: ScrapingMethod[], runId?: string): StepMessage[] =>
+    methods.flatMap((method, methodIndex) =>
+      (method.steps || []).flatMap((step) => {
+        const key = stepKey(methodIndex, step)
+        const state = `${step.status}:${step.attempt ?? 1}`
+        const previous = stepStates.get(key)
+        stepStates.set(key, state)
+        // Steps that haven't started yet aren't news
+        if (previous === state || (previous === undefined && step.status === "pending")) return []
+        return [{ type: "step" as const, runId, method: method.name, step }]
+      }),
+    )
+
+  return {
+    contentType: "text/event-stream; charset=utf-8",
+    // Ask EventSource to reconnect quickly if the connection drops
+    preamble: "retry: 3000\n\n",
+    encode(message) {
+      if (message.type !== "progress") return frame(message)
+      return [...changedSteps(message.methods, message.runId), message].map(frame).join("")
+    },
+  }
+}
+
+export function createEncoder(kind: TransportKind): StreamEncoder {
+  return kind === "sse" ? createSseEncoder() : createNdjsonEncoder()
+}
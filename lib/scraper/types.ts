@@ -0,0 +1,46 @@
+import type { EventDuration } from "./duration"
+
+export interface MonopolyEvent {
+  name: string
+  // UTC instants in ISO 8601 form
+  startTime: string
+  endTime: string
+  // Offset of the source schedule at startTime, e.g. "+00:00"
+  utcOffset: string
+  sourceTimeZone: string
+  // Duration as printed on the page, kept for display
+  duration: string
+  durationInfo: EventDuration
+  type?: string
+  imageUrl?: string
+}
+
+export interface EventsByDate {
+  [date: string]: MonopolyEvent[]
+}
+
+export interface ScrapingMethod {
+  name: string
+  status: "pending" | "running" | "success" | "failed" | "cancelled"
+  result?: any
+  error?: string
+  // Non-fatal problems, e.g. the schedule was only found by a fallback locator
+  warnings?: string[]
+  duration?: number
+  // Set while a step with a retry policy is on its second or later try
+  attempt?: number
+  maxAttempts?: number
+  // Individual steps of a multi-step strategy such as the browser automation
+  steps?: ScrapingMethod[]
+}
+
+// Event as it appears in the schedule markup, before any parsing
+export interface RawEvent {
+  date: string
+  name: string
+  timeText: string
+  durationText: string
+  imageUrl: string
+  // Set when the source states its own zone, overriding the page-level one
+  timeZone?: string
+}
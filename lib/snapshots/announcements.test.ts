@@ -0,0 +1,52 @@
+import assert from "node:assert/strict"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { after, before, test } from "node:test"
+import type { MonopolyEvent } from "@/lib/scraper/types"
+import { findAnnouncements } from "./announcements"
+import { FileSnapshotStore } from "./file-store"
+
+const highRoller = (day: string): MonopolyEvent => ({
+  name: "High Roller",
+  startTime: `${day}T01:00:00.000Z`,
+  endTime: `${day}T01:59:00.000Z`,
+  utcOffset: "+00:00",
+  sourceTimeZone: "UTC",
+  duration: "1 Hour",
+  durationInfo: { kind: "fixed", minutes: 60, windowMinutes: 60, mismatch: false },
+  type: "Quick Event",
+  imageUrl: "https://example.com/high-roller.png",
+})
+
+let directory: string
+
+before(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "announcements-"))
+})
+
+after(async () => {
+  await rm(directory, { recursive: true, force: true })
+})
+
+test("findAnnouncements counts the next day's occurrence of a recurring event as new", async () => {
+  const store = new FileSnapshotStore(directory)
+  const snapshot = { method: "Fixture", parserVersion: 1, timings: [] }
+  await store.save({
+    ...snapshot,
+    createdAt: "2025-05-28T23:00:00.000Z",
+    events: { "2025-05-29": [highRoller("2025-05-29")] },
+  })
+  const latest = await store.save({
+    ...snapshot,
+    createdAt: "2025-05-29T23:00:00.000Z",
+    events: { "2025-05-30": [highRoller("2025-05-30")] },
+  })
+
+  const announcements = await findAnnouncements(store)
+
+  assert.equal(announcements.length, 1)
+  assert.equal(announcements[0].event.startTime, "2025-05-30T01:00:00.000Z")
+  assert.equal(announcements[0].announcedAt, latest.createdAt)
+  assert.equal(announcements[0].snapshotId, latest.id)
+})
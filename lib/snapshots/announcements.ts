@@ -0,0 +1,27 @@
+import { diffSchedules, type DatedEvent } from "./diff"
+import type { ScheduleSnapshot, SnapshotStore } from "./types"
+
+export interface Announcement {
+  event: DatedEvent
+  // The first scrape the event appeared in
+  announcedAt: string
+  snapshotId: string
+}
+
+// Events added between each pair of consecutive stored scrapes, looking back over the last `scrapes` of them
+export async function findAnnouncements(store: SnapshotStore, scrapes = 20): Promise<Announcement[]> {
+  const summaries = await store.list({ limit: scrapes + 1 })
+  const snapshots = (await Promise.all(summaries.map((summary) => store.get(summary.id)))).filter(
+    (snapshot): snapshot is ScheduleSnapshot => snapshot !== null,
+  )
+
+  // list() is newest first; the oldest one only serves as the baseline. Occurrences that had already ended by the
+  // newer scrape drop out first, so the next day's occurrence counts as new rather than as a reschedule
+  return snapshots.slice(0, -1).flatMap((snapshot, index) =>
+    diffSchedules(snapshots[index + 1].events, snapshot.events, { asOf: snapshot.createdAt }).added.map((event) => ({
+      event,
+      announcedAt: snapshot.createdAt,
+      snapshotId: snapshot.id,
+    })),
+  )
+}
@@ -0,0 +1,141 @@
+import assert from "node:assert/strict"
+import { describe, test } from "node:test"
+import type { EventsByDate, MonopolyEvent } from "@/lib/scraper/types"
+import { diffSchedules, type ScheduleDiff } from "./diff"
+
+function event(
+  name: string,
+  startTime: string,
+  endTime: string,
+  overrides: Partial<MonopolyEvent> = {},
+): MonopolyEvent {
+  return {
+    name,
+    startTime,
+    endTime,
+    utcOffset: "+00:00",
+    sourceTimeZone: "UTC",
+    duration: "1 Hour",
+    durationInfo: { kind: "fixed", minutes: 60, windowMinutes: 60, mismatch: false },
+    type: "Quick Event",
+    imageUrl: "https://example.com/icon.png",
+    ...overrides,
+  } as MonopolyEvent
+}
+
+// Group events under their start date, the way the parser stores them
+function schedule(...events: MonopolyEvent[]): EventsByDate {
+  const byDate: EventsByDate = {}
+  events.forEach((item) => (byDate[item.startTime.slice(0, 10)] ||= []).push(item))
+  return byDate
+}
+
+// Names and the fields that changed, which is all these tests care about
+function summarize(diff: ScheduleDiff) {
+  return {
+    added: diff.added.map((item) => `${item.name}@${item.startTime}`),
+    removed: diff.removed.map((item) => `${item.name}@${item.startTime}`),
+    changed: diff.changed.map((change) => `${change.name}:${change.changes.join(",")}`),
+    unchanged: diff.unchanged,
+  }
+}
+
+const highRoller = (day: string) => event("High Roller", `${day}T01:00:00.000Z`, `${day}T06:59:00.000Z`)
+const heist = event("Mega Heist", "2025-05-29T07:00:00.000Z", "2025-05-29T12:59:00.000Z")
+const tournament = event("Tournament", "2025-05-29T01:00:00.000Z", "2025-05-31T00:59:00.000Z", { type: "Tournament" })
+
+describe("diffSchedules", () => {
+  test("reports nothing for identical schedules", () => {
+    const listing = schedule(highRoller("2025-05-29"), heist)
+    assert.deepEqual(summarize(diffSchedules(listing, listing)), { added: [], removed: [], changed: [], unchanged: 2 })
+  })
+
+  test("finds added and removed events", () => {
+    const before = schedule(highRoller("2025-05-29"), heist)
+    const diff = diffSchedules(before, schedule(highRoller("2025-05-29"), tournament))
+    assert.deepEqual(summarize(diff), {
+      added: ["Tournament@2025-05-29T01:00:00.000Z"],
+      removed: ["Mega Heist@2025-05-29T07:00:00.000Z"],
+      changed: [],
+      unchanged: 1,
+    })
+  })
+
+  test("pairs an occurrence that moved within a day as a reschedule", () => {
+    const moved = event("Mega Heist", "2025-05-29T09:00:00.000Z", "2025-05-29T14:59:00.000Z")
+    const diff = diffSchedules(schedule(heist), schedule(moved))
+    assert.deepEqual(summarize(diff), {
+      added: [],
+      removed: [],
+      changed: ["Mega Heist:startTime,endTime"],
+      unchanged: 0,
+    })
+  })
+
+  test("reports a field change on an occurrence with the same window", () => {
+    const retyped = { ...heist, type: "Partner Event" }
+    assert.deepEqual(summarize(diffSchedules(schedule(heist), schedule(retyped))).changed, ["Mega Heist:type"])
+  })
+
+  test("treats occurrences more than a day apart as a removal and an addition", () => {
+    const later = event("Mega Heist", "2025-06-02T07:00:00.000Z", "2025-06-02T12:59:00.000Z")
+    const diff = diffSchedules(schedule(heist), schedule(later))
+    assert.deepEqual(summarize(diff), {
+      added: ["Mega Heist@2025-06-02T07:00:00.000Z"],
+      removed: ["Mega Heist@2025-05-29T07:00:00.000Z"],
+      changed: [],
+      unchanged: 0,
+    })
+  })
+
+  test("matches each occurrence of a recurring event to its own window", () => {
+    const before = schedule(highRoller("2025-05-29"), highRoller("2025-05-30"))
+    const after = schedule(highRoller("2025-05-29"), highRoller("2025-05-30"), highRoller("2025-05-31"))
+    assert.deepEqual(summarize(diffSchedules(before, after)), {
+      added: ["High Roller@2025-05-31T01:00:00.000Z"],
+      removed: [],
+      changed: [],
+      unchanged: 2,
+    })
+  })
+
+  describe("daily rollover", () => {
+    // Scraped late on the 29th and again on the 30th, after the page dropped the 29th
+    const before = schedule(highRoller("2025-05-29"), heist, tournament)
+    const after = schedule(tournament, highRoller("2025-05-30"))
+    const asOf = "2025-05-30T02:00:00.000Z"
+
+    test("without asOf, finished events look removed or rescheduled", () => {
+      assert.deepEqual(summarize(diffSchedules(before, after)), {
+        added: [],
+        removed: ["Mega Heist@2025-05-29T07:00:00.000Z"],
+        changed: ["High Roller:startTime,endTime"],
+        unchanged: 1,
+      })
+    })
+
+    test("with asOf, finished events drop out and new occurrences count as added", () => {
+      assert.deepEqual(summarize(diffSchedules(before, after, { asOf })), {
+        added: ["High Roller@2025-05-30T01:00:00.000Z"],
+        removed: [],
+        changed: [],
+        unchanged: 1,
+      })
+    })
+
+    test("still reports removals of events that had not finished", () => {
+      const diff = diffSchedules(before, schedule(highRoller("2025-05-30")), { asOf })
+      assert.deepEqual(summarize(diff).removed, ["Tournament@2025-05-29T01:00:00.000Z"])
+    })
+
+    test("keeps finished events the page still lists as unchanged", () => {
+      const stillListed = schedule(highRoller("2025-05-29"), heist)
+      assert.deepEqual(summarize(diffSchedules(stillListed, stillListed, { asOf })), {
+        added: [],
+        removed: [],
+        changed: [],
+        unchanged: 2,
+      })
+    })
+  })
+})
@@ -0,0 +1,121 @@
+import type { EventsByDate, MonopolyEvent } from "@/lib/scraper/types"
+
+export type ChangedField = "startTime" | "endTime" | "duration" | "type"
+
+export interface DatedEvent extends MonopolyEvent {
+  date: string
+}
+
+export interface EventChange {
+  name: string
+  before: DatedEvent
+  after: DatedEvent
+  changes: ChangedField[]
+}
+
+export interface ScheduleDiff {
+  added: DatedEvent[]
+  removed: DatedEvent[]
+  changed: EventChange[]
+  unchanged: number
+}
+
+export interface DiffOptions {
+  // When the newer listing was taken. The page only lists today onwards, so older occurrences that had ended by then
+  // dropped off because they finished; they are neither removals nor the old side of a reschedule
+  asOf?: string
+}
+
+const COMPARED_FIELDS: ChangedField[] = ["startTime", "endTime", "duration", "type"]
+
+// Leftover occurrences of the same event further apart than this are a removal plus an addition, not a reschedule
+const RESCHEDULE_WINDOW_MS = 24 * 60 * 60 * 1000
+
+export function flattenEvents(eventsByDate: EventsByDate): DatedEvent[] {
+  return Object.entries(eventsByDate).flatMap(([date, events]) => events.map((event) => ({ ...event, date })))
+}
+
+const eventKey = (event: MonopolyEvent) => event.name.trim().toLowerCase()
+
+function groupByName(events: DatedEvent[]): Map<string, DatedEvent[]> {
+  const groups = new Map<string, DatedEvent[]>()
+  events.forEach((event) => {
+    const group = groups.get(eventKey(event)) || []
+    group.push(event)
+    groups.set(eventKey(event), group)
+  })
+  return groups
+}
+
+const byStartTime = (a: DatedEvent, b: DatedEvent) => a.startTime.localeCompare(b.startTime)
+
+export function diffSchedules(before: EventsByDate, after: EventsByDate, options: DiffOptions = {}): ScheduleDiff {
+  const diff: ScheduleDiff = { added: [], removed: [], changed: [], unchanged: 0 }
+
+  const beforeGroups = groupByName(flattenEvents(before))
+  const afterGroups = groupByName(flattenEvents(after))
+  const names = new Set([...beforeGroups.keys(), ...afterGroups.keys()])
+  const asOf = options.asOf ? Date.parse(options.asOf) : null
+
+  const compare = (previous: DatedEvent, next: DatedEvent) => {
+    const changes = COMPARED_FIELDS.filter((field) => previous[field] !== next[field])
+    if (changes.length > 0) diff.changed.push({ name: next.name, before: previous, after: next, changes })
+    else diff.unchanged++
+  }
+
+  names.forEach((name) => {
+    const previous = [...(beforeGroups.get(name) || [])].sort(byStartTime)
+    const next = [...(afterGroups.get(name) || [])].sort(byStartTime)
+
+    // Occurrences with the same window are the same event; other fields may still have changed
+    for (let i = previous.length - 1; i >= 0; i--) {
+      const match = next.findIndex(
+        (event) => event.startTime === previous[i].startTime && event.endTime === previous[i].endTime,
+      )
+      if (match === -1) continue
+      compare(previous[i], next[match])
+      previous.splice(i, 1)
+      next.splice(match, 1)
+    }
+
+    if (asOf !== null) {
+      for (let i = previous.length - 1; i >= 0; i--) {
+        if (Date.parse(previous[i].endTime) <= asOf) previous.splice(i, 1)
+      }
+    }
+
+    // Pair what's left by closest start time to find reschedules
+    const candidates = previous
+      .flatMap((old, oldIndex) =>
+        next.map((event, newIndex) => ({
+          oldIndex,
+          newIndex,
+          distance: Math.abs(Date.parse(event.startTime) - Date.parse(old.startTime)),
+        })),
+      )
+      .filter((candidate) => candidate.distance <= RESCHEDULE_WINDOW_MS)
+      .sort((a, b) => a.distance - b.distance)
+
+    const pairedOld = new Set<number>()
+    const pairedNew = new Set<number>()
+    candidates.forEach(({ oldIndex, newIndex }) => {
+      if (pairedOld.has(oldIndex) || pairedNew.has(newIndex)) return
+      pairedOld.add(oldIndex)
+      pairedNew.add(newIndex)
+      compare(previous[oldIndex], next[newIndex])
+    })
+
+    previous.forEach((event, index) => {
+      if (!pairedOld.has(index)) diff.removed.push(event)
+    })
+    next.forEach((event, index) => {
+      if (!pairedNew.has(index)) diff.added.push(event)
+    })
+  })
+
+  diff.added.sort(byStartTime)
+  diff.removed.sort(byStartTime)
+  diff.changed.sort((a, b) => byStartTime(a.after, b.after))
+
+  return diff
+}
@@ -0,0 +1,67 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type { ListSnapshotsOptions, NewSnapshot, ScheduleSnapshot, SnapshotStore, SnapshotSummary } from "./types"
+import { summarizeSnapshot, toSnapshot } from "./utils"
+
+// One JSON file per snapshot, named by its sortable id
+export class FileSnapshotStore implements SnapshotStore {
+  constructor(private readonly directory: string) {}
+
+  private filePath(id: string) {
+    return path.join(this.directory, `${path.basename(id)}.json`)
+  }
+
+  private async ids(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory)
+      return files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => file.slice(0, -".json".length))
+        .sort()
+        .reverse()
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+      throw error
+    }
+  }
+
+  async save(snapshot: NewSnapshot): Promise<ScheduleSnapshot> {
+    const saved = toSnapshot(snapshot)
+    await fs.mkdir(this.directory, { recursive: true })
+
+    // Write then rename so readers never see a half-written file
+    const target = this.filePath(saved.id)
+    await fs.writeFile(`${target}.tmp`, JSON.stringify(saved, null, 2))
+    await fs.rename(`${target}.tmp`, target)
+
+    return saved
+  }
+
+  async get(id: string): Promise<ScheduleSnapshot | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id), "utf8"))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+      throw error
+    }
+  }
+
+  async latest(): Promise<ScheduleSnapshot | null> {
+    const [id] = await this.ids()
+    return id ? this.get(id) : null
+  }
+
+  async list({ limit = 50, before }: ListSnapshotsOptions = {}): Promise<SnapshotSummary[]> {
+    const summaries: SnapshotSummary[] = []
+
+    for (const id of await this.ids()) {
+      if (summaries.length >= limit) break
+
+      const snapshot = await this.get(id)
+      if (!snapshot || (before && snapshot.createdAt > before)) continue
+      summaries.push(summarizeSnapshot(snapshot))
+    }
+
+    return summaries
+  }
+}
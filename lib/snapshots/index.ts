@@ -0,0 +1,30 @@
+import path from "path"
+import { FileSnapshotStore } from "./file-store"
+import { SqliteSnapshotStore } from "./sqlite-store"
+import type { SnapshotStore } from "./types"
+
+export type { ScheduleSnapshot, SnapshotStore, SnapshotSummary } from "./types"
+export { collectTimings, summarizeSnapshot } from "./utils"
+export { diffSchedules, flattenEvents, type DatedEvent, type EventChange, type ScheduleDiff } from "./diff"
+export { findAnnouncements, type Announcement } from "./announcements"
+
+const DATA_DIR = path.join(process.cwd(), ".data")
+
+export function createSnapshotStore(backend = process.env.SNAPSHOT_STORE || "file"): SnapshotStore {
+  switch (backend) {
+    case "file":
+      return new FileSnapshotStore(process.env.SNAPSHOT_DIR || path.join(DATA_DIR, "snapshots"))
+    case "sqlite":
+      return new SqliteSnapshotStore(process.env.SNAPSHOT_DB || path.join(DATA_DIR, "snapshots.db"))
+    default:
+      throw new Error(`Unknown snapshot store "${backend}". Use "file" or "sqlite".`)
+  }
+}
+
+// Kept on globalThis so every route shares one store, and one SQLite connection, across module reloads
+const holder = globalThis as typeof globalThis & { __snapshotStore?: SnapshotStore }
+
+export function getSnapshotStore(): SnapshotStore {
+  if (!holder.__snapshotStore) holder.__snapshotStore = createSnapshotStore()
+  return holder.__snapshotStore
+}
@@ -0,0 +1,117 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type BetterSqlite3 from "better-sqlite3"
+import type { ListSnapshotsOptions, NewSnapshot, ScheduleSnapshot, SnapshotStore, SnapshotSummary } from "./types"
+import { toSnapshot } from "./utils"
+
+interface SnapshotRow {
+  id: string
+  created_at: string
+  method: string
+  parser_version: number
+  timings: string
+  events?: string
+  total_events: number
+  total_dates: number
+}
+
+const SUMMARY_COLUMNS = "id, created_at, method, parser_version, timings, total_events, total_dates"
+
+const toSummary = (row: SnapshotRow): SnapshotSummary => ({
+  id: row.id,
+  createdAt: row.created_at,
+  method: row.method,
+  parserVersion: row.parser_version,
+  timings: JSON.parse(row.timings),
+  totalEvents: row.total_events,
+  totalDates: row.total_dates,
+})
+
+const toSnapshotRecord = (row: SnapshotRow): ScheduleSnapshot => {
+  const { totalEvents, totalDates, ...summary } = toSummary(row)
+  return { ...summary, events: JSON.parse(row.events!) }
+}
+
+export class SqliteSnapshotStore implements SnapshotStore {
+  private db: Promise<BetterSqlite3.Database> | null = null
+
+  constructor(private readonly filename: string) {}
+
+  // Open lazily so deployments using the file store never load the native module
+  private open(): Promise<BetterSqlite3.Database> {
+    if (!this.db) {
+      this.db = (async () => {
+        let Database: typeof BetterSqlite3
+        try {
+          Database = (await import("better-sqlite3")).default
+        } catch (error) {
+          throw new Error("better-sqlite3 not available in this environment")
+        }
+
+        await fs.mkdir(path.dirname(this.filename), { recursive: true })
+        const db = new Database(this.filename)
+        db.pragma("journal_mode = WAL")
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS snapshots (
+            id TEXT PRIMARY KEY,
+            created_at TEXT NOT NULL,
+            method TEXT NOT NULL,
+            parser_version INTEGER NOT NULL,
+            timings TEXT NOT NULL,
+            events TEXT NOT NULL,
+            total_events INTEGER NOT NULL,
+            total_dates INTEGER NOT NULL
+          );
+          CREATE INDEX IF NOT EXISTS snapshots_created_at ON snapshots (created_at);
+        `)
+        return db
+      })()
+    }
+    return this.db
+  }
+
+  async save(snapshot: NewSnapshot): Promise<ScheduleSnapshot> {
+    const db = await this.open()
+    const saved = toSnapshot(snapshot)
+
+    db.prepare(
+      `INSERT INTO snapshots (id, created_at, method, parser_version, timings, events, total_events, total_dates)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    ).run(
+      saved.id,
+      saved.createdAt,
+      saved.method,
+      saved.parserVersion,
+      JSON.stringify(saved.timings),
+      JSON.stringify(saved.events),
+      Object.values(saved.events).flat().length,
+      Object.keys(saved.events).length,
+    )
+
+    return saved
+  }
+
+  async get(id: string): Promise<ScheduleSnapshot | null> {
+    const db = await this.open()
+    const row = db.prepare<[string], SnapshotRow>("SELECT * FROM snapshots WHERE id = ?").get(id)
+    return row ? toSnapshotRecord(row) : null
+  }
+
+  async latest(): Promise<ScheduleSnapshot | null> {
+    const db = await this.open()
+    const row = db.prepare<[], SnapshotRow>("SELECT * FROM snapshots ORDER BY id DESC LIMIT 1").get()
+    return row ? toSnapshotRecord(row) : null
+  }
+
+  async list({ limit = 50, before }: ListSnapshotsOptions = {}): Promise<SnapshotSummary[]> {
+    const db = await this.open()
+    const rows = before
+      ? db
+          .prepare<[string, number], SnapshotRow>(
+            `SELECT ${SUMMARY_COLUMNS} FROM snapshots WHERE created_at <= ? ORDER BY id DESC LIMIT ?`,
+          )
+          .all(before, limit)
+      : db.prepare<[number], SnapshotRow>(`SELECT ${SUMMARY_COLUMNS} FROM snapshots ORDER BY id DESC LIMIT ?`).all(limit)
+    return rows.map(toSummary)
+  }
+}
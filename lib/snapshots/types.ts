@@ -0,0 +1,40 @@
+import type { EventsByDate, ScrapingMethod } from "@/lib/scraper/types"
+
+export interface StepTiming {
+  method: string
+  // Unset for the strategy as a whole
+  step?: string
+  status: ScrapingMethod["status"]
+  duration?: number
+}
+
+export interface ScheduleSnapshot {
+  id: string
+  createdAt: string
+  // Strategy that produced the events
+  method: string
+  parserVersion: number
+  timings: StepTiming[]
+  events: EventsByDate
+}
+
+export type NewSnapshot = Omit<ScheduleSnapshot, "id" | "createdAt"> & { createdAt?: string }
+
+export interface SnapshotSummary extends Omit<ScheduleSnapshot, "events"> {
+  totalEvents: number
+  totalDates: number
+}
+
+export interface ListSnapshotsOptions {
+  limit?: number
+  // Only snapshots taken at or before this instant
+  before?: string
+}
+
+export interface SnapshotStore {
+  save(snapshot: NewSnapshot): Promise<ScheduleSnapshot>
+  get(id: string): Promise<ScheduleSnapshot | null>
+  latest(): Promise<ScheduleSnapshot | null>
+  // Newest first
+  list(options?: ListSnapshotsOptions): Promise<SnapshotSummary[]>
+}
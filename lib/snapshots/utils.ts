@@ -0,0 +1,34 @@
+import { randomBytes } from "crypto"
+import type { ScrapingMethod } from "@/lib/scraper/types"
+import type { NewSnapshot, ScheduleSnapshot, SnapshotSummary, StepTiming } from "./types"
+
+// Ids sort in creation order, e.g. "20250529T010000123Z-9f2c1a"
+export function createSnapshotId(createdAt: string): string {
+  return `${createdAt.replace(/[-:.]/g, "")}-${randomBytes(3).toString("hex")}`
+}
+
+export function toSnapshot(snapshot: NewSnapshot): ScheduleSnapshot {
+  const createdAt = snapshot.createdAt || new Date().toISOString()
+  return { ...snapshot, id: createSnapshotId(createdAt), createdAt }
+}
+
+export function summarizeSnapshot({ events, ...snapshot }: ScheduleSnapshot): SnapshotSummary {
+  return {
+    ...snapshot,
+    totalEvents: Object.values(events).flat().length,
+    totalDates: Object.keys(events).length,
+  }
+}
+
+// Flatten the streamed method tree into one timing row per strategy and step
+export function collectTimings(methods: ScrapingMethod[]): StepTiming[] {
+  return methods.flatMap((method) => [
+    { method: method.name, status: method.status, duration: method.duration },
+    ...(method.steps || []).map((step) => ({
+      method: method.name,
+      step: step.name,
+      status: step.status,
+      duration: step.duration,
+    })),
+  ])
+}
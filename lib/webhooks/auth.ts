@@ -0,0 +1,23 @@
+import { timingSafeEqual } from "crypto"
+import { NextResponse } from "next/server"
+
+// Webhooks make the server send requests to any URL, so managing them stays closed until WEBHOOK_ADMIN_TOKEN is set
+// and then needs "Authorization: Bearer <token>". Returns the response to send back, or null when the caller may go on.
+export function requireWebhookAdmin(request: Request): NextResponse | null {
+  const token = process.env.WEBHOOK_ADMIN_TOKEN
+  if (!token) {
+    return NextResponse.json(
+      { error: "Webhook management is disabled. Set WEBHOOK_ADMIN_TOKEN to enable it." },
+      { status: 403 },
+    )
+  }
+
+  const expected = Buffer.from(`Bearer ${token}`)
+  const actual = Buffer.from(request.headers.get("authorization") || "")
+  if (expected.length === actual.length && timingSafeEqual(expected, actual)) return null
+
+  return NextResponse.json(
+    { error: "Missing or invalid admin token" },
+    { status: 401, headers: { "WWW-Authenticate": "Bearer" } },
+  )
+}
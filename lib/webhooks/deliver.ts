@@ -0,0 +1,139 @@
+import { randomUUID } from "crypto"
+import { attemptsFromEnv, DEFAULT_RETRY_POLICY, withRetry, type RetryPolicy } from "@/lib/scraper/retry"
+import { diffSchedules, getSnapshotStore, type ScheduleSnapshot } from "@/lib/snapshots"
+import { buildChangePayload, hasChanges } from "./payload"
+import type { FileWebhookRegistry } from "./registry"
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, signPayload } from "./signature"
+import type { DeliveryAttempt, ScheduleChangePayload, Webhook } from "./types"
+
+const DELIVERY_TIMEOUT_MS = 10000
+
+// Receivers that are down or overloaded get a few more tries; a 4xx means the request itself was refused
+export const DELIVERY_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  attempts: attemptsFromEnv(process.env.WEBHOOK_RETRY_ATTEMPTS, 4),
+  backoffMs: 2000,
+  maxBackoffMs: 60000,
+}
+
+export class DeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode?: number,
+  ) {
+    super(message)
+  }
+}
+
+async function post(webhook: Webhook, body: string, deliveryId: string): Promise<number> {
+  const timestamp = String(Math.floor(Date.now() / 1000))
+  const response = await fetch(webhook.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "mgscraper-webhooks",
+      "X-Webhook-Id": webhook.id,
+      "X-Delivery-Id": deliveryId,
+      [TIMESTAMP_HEADER]: timestamp,
+      [SIGNATURE_HEADER]: signPayload(webhook.secret, timestamp, body),
+    },
+    body,
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    cache: "no-store",
+  })
+
+  // The message format is what isTransientError looks for to decide on a retry
+  if (!response.ok) throw new DeliveryError(`HTTP ${response.status}: ${response.statusText}`, response.status)
+  return response.status
+}
+
+// POST one payload, retrying transient failures and logging every attempt
+export async function deliverPayload(
+  registry: FileWebhookRegistry,
+  webhook: Webhook,
+  payload: ScheduleChangePayload,
+  policy: RetryPolicy = DELIVERY_RETRY_POLICY,
+): Promise<DeliveryAttempt> {
+  const body = JSON.stringify(payload)
+  let last: DeliveryAttempt | null = null
+
+  const attemptDelivery = async (attempt: number) => {
+    const startTime = Date.now()
+    const record: DeliveryAttempt = {
+      deliveryId: payload.deliveryId,
+      webhookId: webhook.id,
+      url: webhook.url,
+      type: payload.type,
+      snapshotId: payload.snapshot.id,
+      attempt,
+      maxAttempts: policy.attempts,
+      status: "success",
+      duration: 0,
+      attemptedAt: new Date(startTime).toISOString(),
+    }
+
+    try {
+      record.statusCode = await post(webhook, body, payload.deliveryId)
+    } catch (error) {
+      record.status = "failed"
+      record.error = error instanceof Error ? error.message : "Unknown error"
+      if (error instanceof DeliveryError) record.statusCode = error.statusCode
+      throw error
+    } finally {
+      record.duration = Date.now() - startTime
+      last = record
+      await registry.logAttempt(record).catch((error) => console.error("Error logging webhook delivery:", error))
+    }
+  }
+
+  try {
+    await withRetry(attemptDelivery, policy)
+  } catch {
+    // Already logged; the last attempt says why it gave up
+  }
+  return last!
+}
+
+export async function deliverToAll(
+  registry: FileWebhookRegistry,
+  build: (deliveryId: string) => ScheduleChangePayload,
+): Promise<DeliveryAttempt[]> {
+  const webhooks = await registry.list()
+  return Promise.all(webhooks.map((webhook) => deliverPayload(registry, webhook, build(randomUUID()))))
+}
+
+async function previousSnapshot(snapshot: ScheduleSnapshot): Promise<ScheduleSnapshot | null> {
+  const store = getSnapshotStore()
+  const [previous] = (await store.list({ before: snapshot.createdAt, limit: 2 })).filter(
+    (summary) => summary.id !== snapshot.id,
+  )
+  return previous ? store.get(previous.id) : null
+}
+
+// Called after a live scrape is stored: tell every webhook what changed since the scrape before it
+export async function notifyScheduleChange(registry: FileWebhookRegistry, snapshot: ScheduleSnapshot) {
+  const previous = await previousSnapshot(snapshot)
+  // The very first scrape has nothing to compare with
+  if (!previous) return []
+
+  // Yesterday's finished events leaving the page is the daily rollover, not a schedule change
+  const diff = diffSchedules(previous.events, snapshot.events, { asOf: snapshot.createdAt })
+  if (!hasChanges(diff)) return []
+
+  return deliverToAll(registry, (deliveryId) =>
+    buildChangePayload("schedule.changed", snapshot, previous, diff, deliveryId),
+  )
+}
+
+// Send the latest change set (or an empty one) to a single webhook, so receivers can be checked without a scrape
+export async function sendTestDelivery(registry: FileWebhookRegistry, webhook: Webhook) {
+  const snapshot = await getSnapshotStore().latest()
+  if (!snapshot) throw new Error("No scrape has been stored yet")
+
+  const previous = await previousSnapshot(snapshot)
+  const diff = previous
+    ? diffSchedules(previous.events, snapshot.events, { asOf: snapshot.createdAt })
+    : { added: [], removed: [], changed: [], unchanged: 0 }
+
+  return deliverPayload(registry, webhook, buildChangePayload("ping", snapshot, previous, diff, randomUUID()))
+}
@@ -0,0 +1,26 @@
+import path from "path"
+import { FileWebhookRegistry } from "./registry"
+import type { Webhook, WebhookSummary } from "./types"
+
+export { FileWebhookRegistry } from "./registry"
+export { requireWebhookAdmin } from "./auth"
+export { deliverPayload, notifyScheduleChange, sendTestDelivery } from "./deliver"
+export { SIGNATURE_HEADER, TIMESTAMP_HEADER, signPayload, verifySignature } from "./signature"
+export type { DeliveryAttempt, ScheduleChangePayload, Webhook, WebhookSummary } from "./types"
+
+const DATA_DIR = path.join(process.cwd(), ".data")
+
+// Kept on globalThis so concurrent routes share one write queue
+const holder = globalThis as typeof globalThis & { __webhookRegistry?: FileWebhookRegistry }
+
+export function getWebhookRegistry(): FileWebhookRegistry {
+  if (!holder.__webhookRegistry) {
+    holder.__webhookRegistry = new FileWebhookRegistry(
+      process.env.WEBHOOKS_FILE || path.join(DATA_DIR, "webhooks.json"),
+      process.env.WEBHOOK_LOG || path.join(DATA_DIR, "webhook-deliveries.jsonl"),
+    )
+  }
+  return holder.__webhookRegistry
+}
+
+export const summarizeWebhook = ({ secret, ...webhook }: Webhook): WebhookSummary => webhook
@@ -0,0 +1,29 @@
+import type { ScheduleDiff, ScheduleSnapshot } from "@/lib/snapshots"
+import type { ScheduleChangePayload, SnapshotRef } from "./types"
+
+const toRef = ({ id, createdAt, method }: ScheduleSnapshot): SnapshotRef => ({ id, createdAt, method })
+
+export const hasChanges = (diff: ScheduleDiff) => diff.added.length + diff.removed.length + diff.changed.length > 0
+
+export function buildChangePayload(
+  type: ScheduleChangePayload["type"],
+  snapshot: ScheduleSnapshot,
+  previous: ScheduleSnapshot | null,
+  diff: ScheduleDiff,
+  deliveryId: string,
+): ScheduleChangePayload {
+  const moved = (change: ScheduleDiff["changed"][number]) =>
+    change.changes.includes("startTime") || change.changes.includes("endTime")
+
+  return {
+    type,
+    deliveryId,
+    sentAt: new Date().toISOString(),
+    snapshot: toRef(snapshot),
+    previousSnapshot: previous && toRef(previous),
+    added: diff.added,
+    removed: diff.removed,
+    rescheduled: diff.changed.filter(moved),
+    updated: diff.changed.filter((change) => !moved(change)),
+  }
+}
@@ -0,0 +1,105 @@
+import { randomUUID } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+import { BadRequestError } from "@/lib/errors"
+import { createSecret } from "./signature"
+import type { DeliveryAttempt, NewWebhook, Webhook } from "./types"
+
+// Only the tail of the delivery log is read back
+const MAX_LOG_ENTRIES = 1000
+
+// Registered webhooks in one JSON file, and every delivery attempt in a JSON-lines log next to it
+export class FileWebhookRegistry {
+  // Serializes read-modify-write cycles within this process
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(
+    private readonly file: string,
+    private readonly logFile: string,
+  ) {}
+
+  private async read(): Promise<Webhook[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.file, "utf8"))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+      throw error
+    }
+  }
+
+  private async write(webhooks: Webhook[]) {
+    await fs.mkdir(path.dirname(this.file), { recursive: true })
+    await fs.writeFile(`${this.file}.tmp`, JSON.stringify(webhooks, null, 2))
+    await fs.rename(`${this.file}.tmp`, this.file)
+  }
+
+  private update<T>(change: (webhooks: Webhook[]) => { webhooks: Webhook[]; result: T }): Promise<T> {
+    const next = this.queue.then(async () => {
+      const { webhooks, result } = change(await this.read())
+      await this.write(webhooks)
+      return result
+    })
+    this.queue = next.catch(() => {})
+    return next
+  }
+
+  list(): Promise<Webhook[]> {
+    return this.read()
+  }
+
+  async get(id: string): Promise<Webhook | null> {
+    return (await this.read()).find((webhook) => webhook.id === id) ?? null
+  }
+
+  add({ url, secret, description }: NewWebhook): Promise<Webhook> {
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    } catch {
+      throw new BadRequestError(`Invalid webhook URL: ${url}`)
+    }
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      throw new BadRequestError("Webhook URLs must use http or https")
+    }
+
+    const webhook: Webhook = {
+      id: randomUUID(),
+      url: parsed.toString(),
+      secret: secret || createSecret(),
+      ...(description && { description }),
+      createdAt: new Date().toISOString(),
+    }
+    return this.update((webhooks) => ({ webhooks: [...webhooks, webhook], result: webhook }))
+  }
+
+  remove(id: string): Promise<boolean> {
+    return this.update((webhooks) => {
+      const remaining = webhooks.filter((webhook) => webhook.id !== id)
+      return { webhooks: remaining, result: remaining.length !== webhooks.length }
+    })
+  }
+
+  async logAttempt(attempt: DeliveryAttempt) {
+    await fs.mkdir(path.dirname(this.logFile), { recursive: true })
+    await fs.appendFile(this.logFile, JSON.stringify(attempt) + "\n")
+  }
+
+  // Newest first
+  async deliveries(options: { limit?: number; webhookId?: string } = {}): Promise<DeliveryAttempt[]> {
+    const { limit = 50, webhookId } = options
+    let lines: string[]
+    try {
+      lines = (await fs.readFile(this.logFile, "utf8")).split("\n").filter(Boolean)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+      throw error
+    }
+
+    return lines
+      .slice(-MAX_LOG_ENTRIES)
+      .map((line) => JSON.parse(line) as DeliveryAttempt)
+      .filter((attempt) => !webhookId || attempt.webhookId === webhookId)
+      .reverse()
+      .slice(0, limit)
+  }
+}
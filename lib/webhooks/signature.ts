@@ -0,0 +1,19 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto"
+
+export const SIGNATURE_HEADER = "X-Signature"
+export const TIMESTAMP_HEADER = "X-Signature-Timestamp"
+
+export function createSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`
+}
+
+// HMAC-SHA256 over "<timestamp>.<body>", so a captured body can't be replayed with a fresh timestamp
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`
+}
+
+export function verifySignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  const expected = Buffer.from(signPayload(secret, timestamp, body))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
@@ -0,0 +1,50 @@
+import type { DatedEvent, EventChange } from "@/lib/snapshots"
+
+export interface Webhook {
+  id: string
+  url: string
+  // Shared secret for the HMAC signature; only returned to the client when the webhook is registered
+  secret: string
+  description?: string
+  createdAt: string
+}
+
+export type NewWebhook = Pick<Webhook, "url"> & Partial<Pick<Webhook, "secret" | "description">>
+
+// Webhook as listed back to clients
+export type WebhookSummary = Omit<Webhook, "secret">
+
+export interface SnapshotRef {
+  id: string
+  createdAt: string
+  method: string
+}
+
+export interface ScheduleChangePayload {
+  type: "schedule.changed" | "ping"
+  // Same as the X-Delivery-Id header; retries of one delivery share it so receivers can deduplicate
+  deliveryId: string
+  sentAt: string
+  snapshot: SnapshotRef
+  previousSnapshot: SnapshotRef | null
+  added: DatedEvent[]
+  removed: DatedEvent[]
+  // Events whose start or end moved, and events where only the duration or type changed
+  rescheduled: EventChange[]
+  updated: EventChange[]
+}
+
+export interface DeliveryAttempt {
+  deliveryId: string
+  webhookId: string
+  url: string
+  type: ScheduleChangePayload["type"]
+  snapshotId: string
+  attempt: number
+  maxAttempts: number
+  status: "success" | "failed"
+  statusCode?: number
+  error?: string
+  duration: number
+  attemptedAt: string
+}
@@ -9,6 +9,8 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  // Bundling linkedom's copy of htmlparser2 breaks it at runtime ("node_DataNode is not defined")
+  serverExternalPackages: ["linkedom"],
 }
 
 export default nextConfig
\ No newline at end of file
@@ -0,0 +1,65 @@
+// Local webhook receiver for trying out deliveries without an external service.
+//
+//   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.mjs
+//
+// Register http://localhost:4000/ as a webhook with the same secret, then scrape or POST /api/webhooks/<id>/test.
+// FAIL_FIRST=2 answers the first two requests with 503 to exercise the retries.
+
+import { createHmac, timingSafeEqual } from "crypto"
+import { createServer } from "http"
+
+const port = Number(process.env.PORT || 4000)
+const secret = process.env.WEBHOOK_SECRET
+let failuresLeft = Number(process.env.FAIL_FIRST || 0)
+
+const verify = (timestamp, body, signature) => {
+  const expected = Buffer.from(`sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`)
+  const actual = Buffer.from(signature || "")
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+const names = (events = []) => events.map((event) => event.name ?? event.after?.name).join(", ") || "-"
+
+createServer((request, response) => {
+  let body = ""
+  request.on("data", (chunk) => (body += chunk))
+  request.on("end", () => {
+    const deliveryId = request.headers["x-delivery-id"]
+
+    if (failuresLeft > 0) {
+      failuresLeft--
+      console.log(`[${deliveryId}] simulating an outage, answering 503`)
+      response.writeHead(503).end()
+      return
+    }
+
+    if (secret && !verify(request.headers["x-signature-timestamp"], body, request.headers["x-signature"])) {
+      console.log(`[${deliveryId}] rejected: bad signature`)
+      response.writeHead(401).end()
+      return
+    }
+
+    let payload
+    try {
+      payload = JSON.parse(body)
+    } catch {
+      payload = null
+    }
+    if (typeof payload !== "object" || payload === null) {
+      console.log(`[${deliveryId}] rejected: body is not a JSON object`)
+      response.writeHead(400).end()
+      return
+    }
+
+    const verified = secret ? " (signature ok)" : ""
+    console.log(`[${deliveryId}] ${payload.type} for snapshot ${payload.snapshot?.id}${verified}`)
+    console.log(`  added:       ${names(payload.added)}`)
+    console.log(`  removed:     ${names(payload.removed)}`)
+    console.log(`  rescheduled: ${names(payload.rescheduled)}`)
+    console.log(`  updated:     ${names(payload.updated)}`)
+    response.writeHead(204).end()
+  })
+}).listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/`)
+  if (!secret) console.log("WEBHOOK_SECRET is not set; signatures will not be checked")
+})